@@ -0,0 +1,44 @@
+/**
+ * Slug index store backed by a JSON file, for incremental scans from the CLI
+ */
+
+import { mkdir, readFile, rm, writeFile } from "node:fs/promises";
+import { dirname } from "node:path";
+import type { SlugIndex, SlugIndexStore } from "../types";
+
+/**
+ * Create a store keeping the slug indexes of all environments in one JSON file
+ */
+export function createFileIndexStore(path: string): SlugIndexStore {
+  const readIndexes = async (): Promise<Record<string, SlugIndex>> => {
+    try {
+      return JSON.parse(await readFile(path, "utf8")) as Record<string, SlugIndex>;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return {};
+      throw error;
+    }
+  };
+
+  const writeIndexes = async (indexes: Record<string, SlugIndex>): Promise<void> => {
+    if (Object.keys(indexes).length === 0) {
+      await rm(path, { force: true });
+      return;
+    }
+    await mkdir(dirname(path), { recursive: true });
+    await writeFile(path, JSON.stringify(indexes), "utf8");
+  };
+
+  return {
+    load: async (environmentId) => (await readIndexes())[environmentId] || null,
+    save: async (index) => {
+      const indexes = await readIndexes();
+      indexes[index.environmentId] = index;
+      await writeIndexes(indexes);
+    },
+    clear: async (environmentId) => {
+      const indexes = await readIndexes();
+      delete indexes[environmentId];
+      await writeIndexes(indexes);
+    },
+  };
+}
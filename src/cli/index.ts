@@ -0,0 +1,768 @@
+/**
+ * Headless CLI for running duplicate slug scans in CI pipelines
+ *
+ * Usage: npm run scan -- [options]
+ * Exit codes: 0 = passed, 1 = more duplicates than allowed (or reserved slugs in use, slug lint
+ * errors with --fail-on-lint-errors, redirect loops with --redirects, or URLs without a single
+ * content item with --reconcile), 2 = configuration or scan error (or a cancelled scan)
+ */
+
+import { readFile } from "node:fs/promises";
+import { parseArgs } from "node:util";
+import {
+  DEFAULT_SLUG_ELEMENTS,
+  appConfig,
+  describeUniquenessScope,
+  getConfiguredContentTypes,
+  getLanguageSpace,
+  getScanFilters,
+  getSlugElementMapping,
+  initializeConfig,
+  parseCollectionScope,
+  parseConcurrency,
+  parseContentMode,
+  parseFilterDate,
+  parseHierarchyRelation,
+  parseLanguageGroups,
+  parseList,
+  parseNormalizationRules,
+  parseRoutePrefixes,
+  parseScanMode,
+  parseSimilarityThreshold,
+  parseSlugElementMapping,
+  parseSlugLintLanguages,
+  parseSlugLintSettings,
+  parseSlugPatternRules,
+  parseTaxonomyFilter,
+  parseUniquenessScope,
+  parseUrlPatterns,
+} from "../config";
+import {
+  exportDuplicateResult,
+  exportPreviewComparison,
+  exportSearchResult,
+  exportUrlReconciliation,
+} from "../services/export";
+import { describeFallback } from "../services/fallbacks";
+import { describeFilters } from "../services/filters";
+import {
+  buildRedirectMap,
+  formatRedirectMap,
+  parseRedirectFormat,
+  parseSlugChanges,
+} from "../services/redirects";
+import { describeSlugRule } from "../services/reserved-slugs";
+import { createScanner } from "../services/scanner";
+import { fetchText, loadUrlList, reconcileUrls } from "../services/sitemap";
+import { highestSeverity } from "../services/slug-lint";
+import type {
+  ApiResult,
+  AppConfig,
+  DuplicateItem,
+  DuplicateResult,
+  LanguageFallbacks,
+  PreviewComparison,
+  ScanOptions,
+  SlugChange,
+  SlugHealthReport,
+  UrlList,
+  UrlReconciliation,
+} from "../types";
+import { createFileIndexStore } from "./index-store";
+
+const EXIT_PASSED = 0;
+const EXIT_DUPLICATES_FOUND = 1;
+const EXIT_ERROR = 2;
+
+const HELP = `Find duplicate URL slugs in a Kontent.ai environment.
+
+Usage: npm run scan -- [options]
+
+Options:
+  --environment-id <id>          Environment ID (env: VITE_KONTENT_ENVIRONMENT_ID)
+  --delivery-api-key <key>       Secure access Delivery API key (env: VITE_KONTENT_DELIVERY_API_KEY)
+  --management-api-key <key>     Management API key, also scans drafts (env: VITE_KONTENT_MANAGEMENT_API_KEY)
+  --preview-api-key <key>        Preview API key for the latest versions (env: VITE_KONTENT_PREVIEW_API_KEY)
+  --content-mode <mode>          "published" or "preview" (env: VITE_KONTENT_CONTENT_MODE)
+  --compare-preview              Fail on collisions that appear once pending changes are published
+  --languages <codes>            Comma-separated language codenames (env: VITE_KONTENT_LANGUAGES)
+  --content-types <types>        Only scan these content types, e.g. "page,article"
+  --slug-elements <mapping>      Slug elements per type, e.g. "page:url_slug,article:slug" (env: VITE_KONTENT_SLUG_ELEMENTS)
+  --scan-mode <mode>             "per-type", "cross-type" or "hierarchical" (env: VITE_KONTENT_SCAN_MODE)
+  --route-prefixes <prefixes>    e.g. "article:/blog/" (env: VITE_KONTENT_ROUTE_PREFIXES)
+  --hierarchy-element <element>  Linked-items element for "hierarchical" mode (env: VITE_KONTENT_HIERARCHY_ELEMENT)
+  --hierarchy-relation <rel>     "subpages" or "parent" (env: VITE_KONTENT_HIERARCHY_RELATION)
+  --normalization <rules>        Slug normalization rules or "none" (env: VITE_KONTENT_SLUG_NORMALIZATION)
+  --similarity-threshold <0-1>   Near-duplicate threshold, 0 disables (env: VITE_KONTENT_SIMILARITY_THRESHOLD)
+  --concurrency <n>              API requests running at the same time (default: 4, env: VITE_KONTENT_CONCURRENCY)
+  --collections <codenames>      Only scan these collections (env: VITE_KONTENT_COLLECTIONS)
+  --collection-scope <scope>     "per-collection" or "cross-collection" (env: VITE_KONTENT_COLLECTION_SCOPE)
+  --uniqueness-scope <scope>     "global", "per-language" or "language-groups" (env: VITE_KONTENT_UNIQUENESS_SCOPE)
+  --language-groups <groups>     Languages sharing a URL space, e.g. "en,en-gb;de,de-at" (env: VITE_KONTENT_LANGUAGE_GROUPS)
+  --include-fallbacks            Check items served through language fallbacks with their inherited slug (env: VITE_KONTENT_INCLUDE_FALLBACKS)
+  --workflow-steps <codenames>   Only scan variants in these workflow steps (preview content and drafts)
+  --taxonomy <filter>            Only scan items tagged with any of the terms, e.g. "category:news|events"
+  --modified-after <date>        Only scan items last modified on or after this date
+  --modified-before <date>       Only scan items last modified before this date
+  --reserved-slugs <slugs>       Slugs that must not be used, e.g. "api,admin,en" (env: VITE_KONTENT_RESERVED_SLUGS)
+  --forbidden-slug-patterns <p>  e.g. "prefix:wp-;regex:^\\d+$" (env: VITE_KONTENT_FORBIDDEN_SLUG_PATTERNS)
+  --slug-lint <rules>            Lint rule severities, e.g. "uppercase=error,underscore=off,max-length=100" (env: VITE_KONTENT_SLUG_LINT)
+  --slug-lint-languages <rules>  Per-language overrides, e.g. "zh:non-ascii=off" (env: VITE_KONTENT_SLUG_LINT_LANGUAGES)
+  --fail-on-lint-errors          Fail when a slug breaks a lint rule of severity "error"
+  --redirects <file>             Print redirects for the slug changes in this CSV or JSON file instead of the scan report
+  --redirect-format <format>     "netlify", "nginx", "apache" or "json" (default: netlify)
+  --url-patterns <patterns>      URL pattern per language, e.g. "en:/{slug},de:/de/{slug}" (env: VITE_KONTENT_URL_PATTERNS)
+  --reconcile <file|url>         Compare the slugs with a sitemap.xml (or index), URL list or CSV file instead of the scan report
+  --slug <slug>                  Search a single slug instead of scanning for all duplicates
+  --index <file>                 Keep a local slug index in this JSON file; later scans only fetch changes
+  --rebuild-index                Rebuild the slug index from a full scan
+  --max-duplicates <n>           Number of duplicate slugs allowed before failing (default: 0)
+  --format <format>              "text" or "json" (default: text)
+  --verbose                      Print scan progress and request timings to stderr
+  --help                         Show this help
+`;
+
+type CliOptions = ReturnType<typeof parseCliArgs>["values"];
+
+/**
+ * Parse the command line flags
+ */
+function parseCliArgs(args: string[]) {
+  return parseArgs({
+    args,
+    options: {
+      "environment-id": { type: "string" },
+      "delivery-api-key": { type: "string" },
+      "management-api-key": { type: "string" },
+      "preview-api-key": { type: "string" },
+      "content-mode": { type: "string" },
+      "compare-preview": { type: "boolean", default: false },
+      languages: { type: "string" },
+      "content-types": { type: "string" },
+      "slug-elements": { type: "string" },
+      "scan-mode": { type: "string" },
+      "route-prefixes": { type: "string" },
+      "hierarchy-element": { type: "string" },
+      "hierarchy-relation": { type: "string" },
+      normalization: { type: "string" },
+      "similarity-threshold": { type: "string" },
+      concurrency: { type: "string" },
+      collections: { type: "string" },
+      "collection-scope": { type: "string" },
+      "uniqueness-scope": { type: "string" },
+      "language-groups": { type: "string" },
+      "include-fallbacks": { type: "boolean", default: false },
+      "workflow-steps": { type: "string" },
+      taxonomy: { type: "string" },
+      "modified-after": { type: "string" },
+      "modified-before": { type: "string" },
+      "reserved-slugs": { type: "string" },
+      "forbidden-slug-patterns": { type: "string" },
+      "slug-lint": { type: "string" },
+      "slug-lint-languages": { type: "string" },
+      "fail-on-lint-errors": { type: "boolean", default: false },
+      redirects: { type: "string" },
+      "redirect-format": { type: "string", default: "netlify" },
+      "url-patterns": { type: "string" },
+      reconcile: { type: "string" },
+      slug: { type: "string" },
+      index: { type: "string" },
+      "rebuild-index": { type: "boolean", default: false },
+      "max-duplicates": { type: "string", default: "0" },
+      format: { type: "string", default: "text" },
+      verbose: { type: "boolean", default: false },
+      help: { type: "boolean", default: false },
+    },
+  });
+}
+
+/**
+ * Send service logs to stderr (or drop them) so stdout only contains the report
+ */
+function configureLogging(verbose: boolean): void {
+  const log = verbose ? (...args: unknown[]) => console.error(...args) : () => {};
+  console.log = log;
+  console.info = log;
+}
+
+/**
+ * Build the scan configuration: command line flags on top of the one loaded from environment variables
+ */
+function createCliConfig(options: CliOptions): AppConfig {
+  const config: AppConfig = { ...appConfig };
+
+  if (options["environment-id"]) config.environmentId = options["environment-id"];
+  if (options["delivery-api-key"]) config.deliveryApiKey = options["delivery-api-key"];
+  if (options["management-api-key"]) config.managementApiKey = options["management-api-key"];
+  if (options["preview-api-key"]) config.previewApiKey = options["preview-api-key"];
+  if (options["content-mode"]) config.contentMode = parseContentMode(options["content-mode"]);
+
+  if (options.languages) {
+    config.languages = options.languages
+      .split(",")
+      .map((lang) => lang.trim())
+      .filter((lang) => lang);
+  }
+  if (options["slug-elements"]) {
+    config.slugElements = parseSlugElementMapping(options["slug-elements"]);
+  }
+  if (options["content-types"]) {
+    // Types without a configured mapping use the default slug elements
+    const mapping = getSlugElementMapping(config);
+    const defaultElements = Object.values(DEFAULT_SLUG_ELEMENTS)[0];
+    config.slugElements = Object.fromEntries(
+      options["content-types"]
+        .split(",")
+        .map((type) => type.trim())
+        .filter((type) => type)
+        .map((type) => [type, mapping[type] || defaultElements]),
+    );
+  }
+  if (options["scan-mode"]) {
+    config.scanMode = parseScanMode(options["scan-mode"]);
+  }
+  if (options["route-prefixes"]) {
+    config.routePrefixes = parseRoutePrefixes(options["route-prefixes"]);
+  }
+  if (options["hierarchy-element"]) {
+    config.hierarchyElement = options["hierarchy-element"];
+  }
+  if (options["hierarchy-relation"]) {
+    config.hierarchyRelation = parseHierarchyRelation(options["hierarchy-relation"]);
+  }
+  if (options.normalization) {
+    config.normalization = parseNormalizationRules(options.normalization);
+  }
+  if (options["similarity-threshold"]) {
+    config.similarityThreshold = parseSimilarityThreshold(options["similarity-threshold"]);
+  }
+  if (options.concurrency) {
+    config.concurrency = parseConcurrency(options.concurrency);
+  }
+
+  const filters = { ...getScanFilters(config) };
+  if (options.collections) filters.collections = parseList(options.collections);
+  if (options["workflow-steps"]) filters.workflowSteps = parseList(options["workflow-steps"]);
+  if (options.taxonomy) filters.taxonomy = parseTaxonomyFilter(options.taxonomy);
+  if (options["modified-after"]) filters.modifiedAfter = parseFilterDate(options["modified-after"]);
+  if (options["modified-before"]) {
+    filters.modifiedBefore = parseFilterDate(options["modified-before"]);
+  }
+  config.filters = filters;
+  if (options["collection-scope"]) {
+    config.collectionScope = parseCollectionScope(options["collection-scope"]);
+  }
+  if (options["uniqueness-scope"]) {
+    config.uniquenessScope = parseUniquenessScope(options["uniqueness-scope"]);
+  }
+  if (options["language-groups"]) {
+    config.languageGroups = parseLanguageGroups(options["language-groups"]);
+  }
+  if (options["include-fallbacks"]) {
+    config.includeFallbacks = true;
+  }
+  if (options["reserved-slugs"]) {
+    config.reservedSlugs = parseList(options["reserved-slugs"]);
+  }
+  if (options["forbidden-slug-patterns"]) {
+    config.forbiddenSlugPatterns = parseSlugPatternRules(options["forbidden-slug-patterns"]);
+  }
+  if (options["url-patterns"]) {
+    config.urlPatterns = parseUrlPatterns(options["url-patterns"]);
+  }
+  if (options["slug-lint"] || options["slug-lint-languages"]) {
+    config.slugLint = {
+      ...config.slugLint,
+      ...(options["slug-lint"] ? parseSlugLintSettings(options["slug-lint"]) : {}),
+      ...(options["slug-lint-languages"]
+        ? { languages: parseSlugLintLanguages(options["slug-lint-languages"]) }
+        : {}),
+    };
+  }
+
+  return config;
+}
+
+/**
+ * Format duplicate slugs with their items and suggested fixes
+ */
+function formatDuplicateLines(duplicates: DuplicateItem[]): string[] {
+  const lines: string[] = [];
+  for (const duplicate of duplicates) {
+    const rules = duplicate.collisionRules?.length
+      ? ` (collide after: ${duplicate.collisionRules.join(", ")})`
+      : "";
+    const collections = duplicate.crossCollection
+      ? ` {collections: ${(duplicate.collections || []).join(", ")}}`
+      : "";
+    lines.push(
+      `⚠️  ${duplicate.slug} [${(duplicate.types || []).join(", ")}]${collections}${rules}`,
+    );
+    for (const item of duplicate.items) {
+      const states = item.publishStates?.length ? `, ${item.publishStates.join("/")}` : "";
+      const versions = item.slugVersions?.includes("latest")
+        ? `, from ${item.slugVersions.join("/")} version`
+        : "";
+      const fallbacks = Object.entries(item.fallbacks || {})
+        .map(([language, from]) => `, ${language} ${describeFallback(from)}`)
+        .join("");
+      lines.push(
+        `    - ${item.name} (${item.codename}, ${item.type}) ${item.language} · ${item.slugField}${states}${versions}${fallbacks}`,
+      );
+      if (item.ancestors?.length) {
+        lines.push(
+          `      ancestors: ${item.ancestors.map((a) => `${a.name} (${a.slug})`).join(" › ")}`,
+        );
+      }
+    }
+    if (duplicate.keeper && duplicate.suggestions?.length) {
+      lines.push(`    💡 keep ${duplicate.keeper.codename}; suggested fixes:`);
+      for (const suggestion of duplicate.suggestions) {
+        lines.push(
+          `       ${suggestion.codename} (${suggestion.language}): ${suggestion.currentSlug} → ${suggestion.suggestedSlug} — ${suggestion.reason}`,
+        );
+      }
+    }
+  }
+  return lines;
+}
+
+/**
+ * Format a published vs. preview comparison as a human-readable report
+ */
+function formatComparisonReport(
+  config: AppConfig,
+  comparison: PreviewComparison,
+  maxDuplicates: number,
+): string {
+  const { published, preview, upcoming, resolved } = comparison;
+  const lines = [
+    `🔀 Published vs. preview slug comparison for environment ${config.environmentId}`,
+    `   Languages: ${(preview.languages || []).join(", ")}`,
+    `   Duplicate slugs: ${published.duplicates.length} published, ${preview.duplicates.length} in latest versions`,
+  ];
+  if (comparison.incomplete) {
+    lines.push("   ⏹️ Scan cancelled: results only cover the items fetched before cancelling");
+  }
+  lines.push("", ...formatDuplicateLines(upcoming));
+  if (resolved.length) {
+    lines.push("", `🎉 Resolved once published: ${resolved.map((d) => d.slug).join(", ")}`);
+  }
+
+  lines.push(
+    "",
+    upcoming.length > maxDuplicates
+      ? `❌ ${upcoming.length} upcoming collision(s) (max allowed: ${maxDuplicates})`
+      : `✅ ${upcoming.length} upcoming collision(s) (max allowed: ${maxDuplicates})`,
+  );
+
+  return lines.join("\n");
+}
+
+/**
+ * Format the variants each language serves through fallbacks
+ */
+function formatFallbackLines(
+  fallbacks: LanguageFallbacks[] | undefined,
+  included: boolean | undefined,
+): string[] {
+  if (!fallbacks?.length) return [];
+  const total = fallbacks.reduce((sum, group) => sum + group.items.length, 0);
+  const lines = [
+    "",
+    `🔁 ${total} variant(s) served via fallback (${included ? "included in" : "not part of"} the duplicate check):`,
+  ];
+
+  for (const { language, items } of fallbacks) {
+    lines.push(`    ${language}:`);
+    for (const item of items) {
+      lines.push(
+        `      - ${item.name} (${item.codename}, ${item.type}) ${item.slug} · ${describeFallback(item.fallbackFrom || "")}`,
+      );
+    }
+  }
+
+  return lines;
+}
+
+/**
+ * Format the slug lint findings with their proposed fixes
+ */
+function formatSlugHealthLines(health: SlugHealthReport | undefined): string[] {
+  if (!health) return [];
+  const { counts, findings } = health;
+  const lines = [
+    "",
+    `🩺 Slug health: ${findings.length} of ${health.checkedSlugs} slug(s) with issues (${counts.error} errors, ${counts.warning} warnings, ${counts.info} info)`,
+  ];
+
+  for (const finding of findings) {
+    const fix = finding.fixedSlug ? ` → ${finding.fixedSlug}` : "";
+    lines.push(
+      `    [${highestSeverity(finding.issues)}] ${finding.slug}${fix} · ${finding.name} (${finding.codename}, ${finding.type}) ${finding.language}`,
+      `      ${finding.issues.map((issue) => issue.message).join("; ")}`,
+    );
+  }
+
+  return lines;
+}
+
+/**
+ * Format a duplicate scan as a human-readable report
+ */
+function formatDuplicateReport(
+  config: AppConfig,
+  result: DuplicateResult,
+  maxDuplicates: number,
+): string {
+  const lines = [
+    `🔍 Duplicate slug scan for environment ${config.environmentId}`,
+    `   Languages: ${(result.languages || []).join(", ")}`,
+    `   Content types: ${getConfiguredContentTypes(config).join(", ")} (${result.scanMode})`,
+    `   Items: ${result.totalItems ?? 0}, unique slugs: ${result.uniqueSlugs ?? 0}`,
+  ];
+  if (result.contentMode === "preview") {
+    lines.push("   Content: latest versions (Preview API)");
+  }
+  if (result.filters) {
+    lines.push(`   Filters: ${describeFilters(result.filters)}`);
+  }
+  if (result.collectionScope === "cross-collection") {
+    lines.push("   Collections: slugs collide across collections");
+  }
+  if (result.uniquenessScope) {
+    lines.push(
+      `   Unique: ${describeUniquenessScope(result.uniquenessScope, result.languageGroups)}`,
+    );
+  }
+  if (result.incomplete) {
+    lines.push("   ⏹️ Scan cancelled: results only cover the items fetched before cancelling");
+  }
+  if (result.index) {
+    lines.push(
+      result.index.mode === "full"
+        ? `   Slug index: rebuilt from a full scan at ${result.index.builtAt}`
+        : `   Slug index: synced ${result.index.changedItems} change(s), built ${result.index.builtAt}`,
+    );
+  }
+  lines.push("");
+
+  lines.push(...formatDuplicateLines(result.duplicates));
+
+  const violations = result.reservedSlugViolations || [];
+  if (violations.length) {
+    lines.push("", `🚫 ${violations.length} reserved slug(s) in use:`);
+    for (const violation of violations) {
+      lines.push(`    ${violation.slug} (${describeSlugRule(violation.rule)})`);
+      for (const item of violation.items) {
+        lines.push(`      - ${item.name} (${item.codename}, ${item.type}) ${item.language}`);
+      }
+    }
+  }
+
+  lines.push(...formatFallbackLines(result.fallbacks, result.includeFallbacks));
+  lines.push(...formatSlugHealthLines(result.slugHealth));
+
+  if (result.similarClusters?.length) {
+    lines.push("", `🔎 ${result.similarClusters.length} cluster(s) of similar slugs:`);
+    for (const cluster of result.similarClusters) {
+      const namespace = cluster.namespace ? ` [${cluster.namespace}]` : "";
+      lines.push(`    ${cluster.slugs.join(" ~ ")}${namespace}`);
+    }
+  }
+
+  const count = result.duplicates.length;
+  lines.push(
+    "",
+    count > maxDuplicates
+      ? `❌ ${count} duplicate slug(s) found (max allowed: ${maxDuplicates})`
+      : `✅ ${count} duplicate slug(s) found (max allowed: ${maxDuplicates})`,
+  );
+
+  return lines.join("\n");
+}
+
+/**
+ * Format a single slug search as a human-readable report
+ */
+function formatSearchReport(
+  config: AppConfig,
+  result: ApiResult,
+  slug: string,
+  codenames: string[],
+  duplicates: number,
+): string {
+  const lines = [`🔍 Items with slug "${slug}" in environment ${config.environmentId}`, ""];
+
+  for (const item of result.items) {
+    const state = item.publishState ? `, ${item.publishState}` : "";
+    const fallback = item.fallbackFrom ? `, ${describeFallback(item.fallbackFrom)}` : "";
+    lines.push(
+      `    - ${item.name} (${item.codename}, ${item.type}) ${item.language} · ${item.slugField}${state}${fallback}`,
+    );
+  }
+  lines.push(...formatFallbackLines(result.fallbacks, config.includeFallbacks));
+  lines.push(...formatSlugHealthLines(result.slugHealth));
+
+  lines.push(
+    "",
+    duplicates > 0
+      ? `❌ Slug "${slug}" is used by ${codenames.length} content items`
+      : `✅ Slug "${slug}" is used by ${codenames.length} content item(s)${codenames.length > 1 ? " in separate URL spaces" : ""}`,
+  );
+
+  return lines.join("\n");
+}
+
+/**
+ * Print the redirects for the slug changes of a file; issues go to stderr and redirect loops
+ * fail the run
+ */
+async function printRedirects(
+  config: AppConfig,
+  file: string,
+  redirectFormat: string,
+  result: DuplicateResult,
+): Promise<number> {
+  let changes: SlugChange[];
+  try {
+    changes = parseSlugChanges(await readFile(file, "utf8"));
+  } catch (error) {
+    console.error(
+      `❌ Cannot read slug changes from ${file}: ${error instanceof Error ? error.message : String(error)}`,
+    );
+    return EXIT_ERROR;
+  }
+
+  const map = buildRedirectMap(changes, config, result.liveSlugs);
+  process.stdout.write(`${formatRedirectMap(map, parseRedirectFormat(redirectFormat))}\n`);
+  for (const issue of map.issues) {
+    console.error(`${issue.severity === "error" ? "❌" : "⚠️"} [${issue.kind}] ${issue.message}`);
+  }
+
+  // Live slugs of a cancelled scan cannot prove no source is still in use
+  if (result.incomplete) return EXIT_ERROR;
+  return map.issues.some((issue) => issue.severity === "error")
+    ? EXIT_DUPLICATES_FOUND
+    : EXIT_PASSED;
+}
+
+/**
+ * Format a URL reconciliation as a human-readable report
+ */
+function formatReconciliationReport(config: AppConfig, report: UrlReconciliation): string {
+  const lines = [
+    `🗺️ URL reconciliation for environment ${config.environmentId}`,
+    `   URLs: ${report.checkedUrls} · Slugs: ${report.checkedSlugs} · Matched: ${report.matchedUrls}`,
+  ];
+  for (const warning of report.warnings) {
+    lines.push(`⚠️ ${warning}`);
+  }
+  if (report.incomplete) {
+    lines.push("⏹️ Scan cancelled: these results only cover the items fetched before cancelling");
+  }
+
+  if (report.ambiguousUrls.length > 0) {
+    lines.push("", `🔀 ${report.ambiguousUrls.length} URL(s) resolving to several items:`);
+    for (const { url, items } of report.ambiguousUrls) {
+      lines.push(`  ${url}`);
+      for (const item of items) {
+        lines.push(`    - ${item.name} (${item.codename}, ${item.type}) ${item.language}`);
+      }
+    }
+  }
+  if (report.orphanUrls.length > 0) {
+    lines.push("", `👻 ${report.orphanUrls.length} URL(s) without content item:`);
+    for (const { url, candidates } of report.orphanUrls) {
+      const slugs = candidates.map((candidate) => `${candidate.language}:${candidate.slug}`);
+      lines.push(
+        `  ${url}${slugs.length ? ` (${slugs.join(", ")})` : " (no URL pattern matches)"}`,
+      );
+    }
+  }
+  if (report.orphanItems.length > 0) {
+    lines.push("", `📭 ${report.orphanItems.length} content item(s) without URL:`);
+    for (const item of report.orphanItems) {
+      lines.push(
+        `  - ${item.name} (${item.codename}, ${item.type}) ${item.language} · ${item.path}`,
+      );
+    }
+  }
+
+  lines.push(
+    "",
+    report.orphanUrls.length + report.ambiguousUrls.length > 0
+      ? "❌ Some URLs do not resolve to exactly one content item"
+      : "✅ Every URL resolves to exactly one content item",
+  );
+  return lines.join("\n");
+}
+
+/**
+ * Load the URLs to reconcile from a file or from a sitemap URL
+ */
+async function readUrlList(source: string): Promise<UrlList> {
+  const text = /^https?:\/\//i.test(source)
+    ? await fetchText(source)
+    : await readFile(source, "utf8");
+  return loadUrlList(text);
+}
+
+/**
+ * Run the CLI and resolve to its exit code
+ */
+async function run(args: string[]): Promise<number> {
+  let options: CliOptions;
+  try {
+    options = parseCliArgs(args).values;
+  } catch (error) {
+    console.error(`❌ ${error instanceof Error ? error.message : String(error)}\n\n${HELP}`);
+    return EXIT_ERROR;
+  }
+
+  if (options.help) {
+    process.stdout.write(HELP);
+    return EXIT_PASSED;
+  }
+
+  const format = options.format === "json" ? "json" : "text";
+  const maxDuplicates = Number.parseInt(options["max-duplicates"], 10);
+  if (Number.isNaN(maxDuplicates) || maxDuplicates < 0) {
+    console.error(`❌ Invalid --max-duplicates value "${options["max-duplicates"]}"`);
+    return EXIT_ERROR;
+  }
+
+  configureLogging(options.verbose);
+  await initializeConfig();
+  const config = createCliConfig(options);
+  const scanner = createScanner(config, {
+    slugIndex: options.index ? createFileIndexStore(options.index) : undefined,
+  });
+
+  if (!config.environmentId) {
+    console.error(
+      "❌ Missing environment ID: pass --environment-id or set VITE_KONTENT_ENVIRONMENT_ID",
+    );
+    return EXIT_ERROR;
+  }
+
+  // A mistyped language would silently yield no items (and no duplicates) in that language
+  const { unknown } = await scanner.checkLanguages();
+  if (unknown.length > 0) {
+    console.error(
+      `❌ Unknown language codename(s) for environment ${config.environmentId}: ${unknown.join(", ")}`,
+    );
+    return EXIT_ERROR;
+  }
+
+  if (options.slug) {
+    const result = await scanner.searchSpecificSlug(options.slug);
+    // The combined search only fails as a whole; a failed full listing must not pass the run
+    const error = result.error || result.deliveryApiAllItems?.error;
+    if (error) {
+      console.error(`❌ ${error}`);
+      return EXIT_ERROR;
+    }
+
+    // A slug counts as one duplicate per URL space where more than one content item uses it
+    const codenames = [...new Set(result.items.map((item) => item.codename))];
+    const spaces = new Map<string, Set<string>>();
+    for (const item of result.items) {
+      const space = getLanguageSpace(item.language, config) ?? "";
+      spaces.set(space, (spaces.get(space) || new Set()).add(item.codename));
+    }
+    const duplicates = [...spaces.values()].filter((space) => space.size > 1).length;
+    process.stdout.write(
+      `${format === "json" ? exportSearchResult(config, result, options.slug, "json") : formatSearchReport(config, result, options.slug, codenames, duplicates)}\n`,
+    );
+    if (options["fail-on-lint-errors"] && result.slugHealth?.counts.error) {
+      return EXIT_DUPLICATES_FOUND;
+    }
+    return duplicates > maxDuplicates ? EXIT_DUPLICATES_FOUND : EXIT_PASSED;
+  }
+
+  // Read the URLs before scanning, so a wrong path fails fast
+  let urlList: UrlList | undefined;
+  if (options.reconcile) {
+    try {
+      urlList = await readUrlList(options.reconcile);
+    } catch (error) {
+      console.error(
+        `❌ Cannot read URLs from ${options.reconcile}: ${error instanceof Error ? error.message : String(error)}`,
+      );
+      return EXIT_ERROR;
+    }
+  }
+
+  if (options["rebuild-index"]) {
+    await scanner.clearIndex();
+  }
+
+  // Ctrl+C cancels the scan and still prints what was found so far
+  const controller = new AbortController();
+  process.once("SIGINT", () => {
+    console.error("⏹️ Cancelling scan...");
+    controller.abort();
+  });
+  const scanOptions: ScanOptions = {
+    signal: controller.signal,
+    onProgress: (progress) => {
+      console.log(`⏳ ${Math.round(progress.fraction * 100)}% ${progress.message}`);
+    },
+  };
+
+  if (options["compare-preview"]) {
+    const comparison = await scanner.comparePreview(undefined, scanOptions);
+    if (comparison.error) {
+      console.error(`❌ ${comparison.error}`);
+      return EXIT_ERROR;
+    }
+
+    process.stdout.write(
+      `${format === "json" ? exportPreviewComparison(config, comparison, "json") : formatComparisonReport(config, comparison, maxDuplicates)}\n`,
+    );
+    if (comparison.incomplete) return EXIT_ERROR;
+    return comparison.upcoming.length > maxDuplicates ? EXIT_DUPLICATES_FOUND : EXIT_PASSED;
+  }
+
+  const result = await scanner.findDuplicateSlugs(undefined, scanOptions);
+  if (result.error) {
+    console.error(`❌ ${result.error}`);
+    return EXIT_ERROR;
+  }
+
+  if (options.redirects) {
+    return printRedirects(config, options.redirects, options["redirect-format"], result);
+  }
+  if (urlList) {
+    const report = reconcileUrls(urlList, result, config);
+    process.stdout.write(
+      `${format === "json" ? exportUrlReconciliation(config, report, "json") : formatReconciliationReport(config, report)}\n`,
+    );
+    if (report.incomplete) return EXIT_ERROR;
+    return report.orphanUrls.length + report.ambiguousUrls.length > 0
+      ? EXIT_DUPLICATES_FOUND
+      : EXIT_PASSED;
+  }
+
+  process.stdout.write(
+    `${format === "json" ? exportDuplicateResult(config, result, "json") : formatDuplicateReport(config, result, maxDuplicates)}\n`,
+  );
+  // Partial results cannot prove the content is free of duplicates
+  if (result.incomplete) return EXIT_ERROR;
+  if (result.reservedSlugViolations?.length) return EXIT_DUPLICATES_FOUND;
+  if (options["fail-on-lint-errors"] && result.slugHealth?.counts.error) {
+    return EXIT_DUPLICATES_FOUND;
+  }
+  return result.duplicates.length > maxDuplicates ? EXIT_DUPLICATES_FOUND : EXIT_PASSED;
+}
+
+run(process.argv.slice(2)).then(
+  (code) => {
+    process.exitCode = code;
+  },
+  (error) => {
+    console.error("❌ Unexpected error:", error);
+    process.exitCode = EXIT_ERROR;
+  },
+);
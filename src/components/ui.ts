@@ -2,9 +2,112 @@
  * UI components and rendering functions
  */
 
-import { getConfigStatus, getConfiguredLanguages, appConfig, hasUserConfiguredLanguages } from "../config";
-import type { ApiResult, ContentItem, DuplicateResult } from "../types";
-import type { DuplicateGroup, DuplicateSummaryItem } from "../utils";
+import {
+  getConfigStatus,
+  getConfiguredLanguages,
+  appConfig,
+  hasUserConfiguredLanguages,
+  hasUserConfiguredSlugElements,
+  formatSlugElementMapping,
+  getSlugElementMapping,
+  getScanMode,
+  formatRoutePrefixes,
+  getNormalizationRules,
+  getSimilarityThreshold,
+  getCustomAppEnvironmentId,
+  getSettingsSource,
+  getContentMode,
+  getScanFilters,
+  getCollectionScope,
+  getUniquenessScope,
+  getIncludeFallbacks,
+  describeUniquenessScope,
+  formatLanguageGroups,
+  formatTaxonomyFilter,
+  formatSlugPatternRules,
+  formatSlugLintLanguages,
+  formatUrlPatterns,
+  type SettingsSource,
+} from "../config";
+import { ALL_NORMALIZATION_RULES, NORMALIZATION_STEPS } from "../services/normalize";
+import { describeFilters } from "../services/filters";
+import { findUnknownLanguages } from "../services/languages";
+import { summarizeRequestTimings } from "../services/request-pool";
+import { describeFallback } from "../services/fallbacks";
+import { REDIRECT_FORMATS, redirectFileName } from "../services/redirects";
+import { describeSlugRule } from "../services/reserved-slugs";
+import {
+  ALL_SLUG_LINT_RULES,
+  DEFAULT_MAX_SLUG_LENGTH,
+  LINT_SEVERITIES,
+  SLUG_LINT_RULES,
+  highestSeverity,
+  resolveLintSettings,
+} from "../services/slug-lint";
+import { listDuplicateVariants, variantKey } from "../services/resolution";
+import type {
+  ApiResult,
+  CollectionScope,
+  ContentItem,
+  ContentMode,
+  DuplicateItem,
+  EnvironmentLanguage,
+  DuplicateResult,
+  PathAncestor,
+  PreviewComparison,
+  LiveSlug,
+  PublishState,
+  RedirectMap,
+  ReconciledUrl,
+  UrlReconciliation,
+  RequestTiming,
+  ScanMode,
+  ScanProgress,
+  SlugFixResult,
+  SlugHealthReport,
+  SlugIndexStatus,
+  SlugLintIssue,
+  LanguageFallbacks,
+  UniquenessScope,
+  SlugVersion,
+} from "../types";
+import {
+  buildItemEditorUrl,
+  escapeHtml,
+  type DuplicateGroup,
+  type DuplicateSummaryItem,
+} from "../utils";
+
+const SCAN_MODE_LABELS: Record<ScanMode, string> = {
+  "per-type": "Per content type",
+  "cross-type": "Cross-type (shared URL space)",
+  hierarchical: "Hierarchical (full paths from parent pages)",
+};
+
+const CONTENT_MODE_LABELS: Record<ContentMode, string> = {
+  published: "Published versions (Delivery API)",
+  preview: "Latest versions (Preview API)",
+};
+
+// Findings listed in the slug health report; exports contain all of them
+const MAX_LINT_ROWS = 200;
+
+// Redirects listed on screen; the downloaded files contain all of them
+const MAX_REDIRECT_ROWS = 200;
+
+// URLs and items listed per reconciliation section; exports contain all of them
+const MAX_RECONCILIATION_ROWS = 200;
+
+const UNIQUENESS_SCOPE_LABELS: Record<UniquenessScope, string> = {
+  global: "Global (no locale prefixes)",
+  "per-language": "Per language (locale-prefixed URLs)",
+  "language-groups": "Language groups sharing URLs",
+};
+
+const COLLECTION_SCOPE_LABELS: Record<CollectionScope, string> = {
+  "per-collection": "Per collection (own URL space)",
+  "cross-collection": "Cross-collection (shared URL space)",
+};
 
 /**
  * Create the main UI structure
@@ -18,6 +121,9 @@ export function createMainUI(): string {
         <button id="config-btn" class="button button-primary">Show Config</button>
         <button id="search-btn" class="button button-warning">Search Slug</button>
         <button id="find-btn" class="button button-success">Find All Duplicates</button>
+        <button id="compare-btn" class="button button-info">Compare Published vs. Preview</button>
+        <button id="redirects-btn" class="button button-secondary">Generate Redirects</button>
+        <button id="reconcile-btn" class="button button-secondary">Reconcile Sitemap</button>
       </div>
       
       <div id="search-section" class="search-section" style="display: none;">
@@ -35,11 +141,13 @@ export function createMainUI(): string {
 }
 
 /**
- * Render language configuration interface
+ * Render language configuration interface, with a picker when the environment's languages
+ * could be fetched (null falls back to a free-text list)
  */
-export function renderLanguageConfiguration(): string {
+export function renderLanguageConfiguration(available: EnvironmentLanguage[] | null = null): string {
   const currentLanguages = getConfiguredLanguages();
   const defaultLang = appConfig.defaultLanguage || 'en';
+  const unknownLanguages = available ? findUnknownLanguages(currentLanguages, available) : [];
   
   return `
     <div class="config-section">
@@ -52,11 +160,13 @@ export function renderLanguageConfiguration(): string {
         </div>
         <div style="font-size: 12px; color: #666; margin-top: 5px;">
           ${appConfig.languages?.length ? 
-            'Configured via VITE_KONTENT_LANGUAGES' : 
+            describeSettingsSource(getSettingsSource("languages"), "VITE_KONTENT_LANGUAGES") : 
             `Using default language: ${defaultLang}`}
         </div>
+        ${renderUnknownLanguagesWarning(unknownLanguages)}
       </div>
 
+      ${available ? renderLanguagePicker(available) : `
       <div style="margin-bottom: 15px;">
         <label for="languages-input" style="display: block; margin-bottom: 5px; font-weight: bold;">
           Languages (comma-separated):
@@ -69,9 +179,9 @@ export function renderLanguageConfiguration(): string {
           style="width: 100%; padding: 8px; border: 1px solid #ddd; border-radius: 4px;"
         />
         <div style="font-size: 12px; color: #666; margin-top: 5px;">
-          Enter language codes separated by commas (e.g., "de,en,zh")
+          Enter language codes separated by commas (e.g., "de,en,zh"). The environment's languages could not be loaded, so codes are not checked.
         </div>
-      </div>
+      </div>`}
 
       <div style="margin-bottom: 20px;">
         <label for="default-lang-input" style="display: block; margin-bottom: 5px; font-weight: bold;">
@@ -99,20 +209,225 @@ export function renderLanguageConfiguration(): string {
       </div>
       
       <div style="margin-top: 20px; padding: 10px; background: #d1ecf1; border-radius: 4px; font-size: 14px;">
-        <strong>💡 Session Configuration:</strong><br>
-        • Changes apply immediately and persist during this session<br>
-        • Will be used for all searches until page reload<br>
-        • For permanent config, set VITE_KONTENT_LANGUAGES in .env file<br>
-        • ${hasUserConfiguredLanguages() ? '✅ Currently using your custom settings' : '📋 Currently using environment/default settings'}
+        <strong>💡 Saved Configuration:</strong><br>
+        • Changes apply immediately and are saved in this browser for this environment<br>
+        • Saved settings take precedence over the custom app configuration and VITE_KONTENT_LANGUAGES<br>
+        • "Reset to Default" forgets the saved languages<br>
+        • ${hasUserConfiguredLanguages() ? '✅ Currently using your custom settings' : `📋 ${describeSettingsSource(getSettingsSource("languages"), "VITE_KONTENT_LANGUAGES")}`}
       </div>
     </div>
   `;
 }
 
 /**
- * Render configuration display
+ * Render a checkbox per environment language with its name, codename and fallback language
+ */
+function renderLanguagePicker(available: EnvironmentLanguage[]): string {
+  const selected = new Set(appConfig.languages || []);
+
+  return `
+      <div style="margin-bottom: 15px;">
+        <strong>Languages to search:</strong>
+        <table class="mapping-table language-picker">
+          <thead><tr><th></th><th>Language</th><th>Codename</th><th>Fallback language</th></tr></thead>
+          <tbody>
+            ${available
+              .map(
+                (lang) => `
+            <tr${lang.isActive === false ? ' style="color:#999;"' : ""}>
+              <td><input type="checkbox" class="language-checkbox" value="${lang.codename}" ${selected.has(lang.codename) ? "checked" : ""}></td>
+              <td>${lang.name}${lang.isDefault ? ' <span class="type-pill">default</span>' : ""}${lang.isActive === false ? " (inactive)" : ""}</td>
+              <td><code>${lang.codename}</code></td>
+              <td>${lang.fallbackLanguage ? `<code>${lang.fallbackLanguage}</code>` : "—"}</td>
+            </tr>`,
+              )
+              .join("")}
+          </tbody>
+        </table>
+        <div style="font-size: 12px; color: #666; margin-top: 5px;">
+          Leave all unchecked to search only the default language below
+        </div>
+      </div>`;
+}
+
+/**
+ * Render a warning listing configured language codenames the environment does not have
  */
-export function renderConfiguration(): string {
+export function renderUnknownLanguagesWarning(unknownLanguages: string[]): string {
+  if (unknownLanguages.length === 0) return "";
+
+  return `
+    <div class="status-error" style="margin-top: 8px;">
+      <strong>⚠️ Unknown language${unknownLanguages.length > 1 ? "s" : ""}:</strong>
+      ${unknownLanguages.map((lang) => `<code>${lang}</code>`).join(" ")}
+      — not a language codename of this environment, so nothing would be found in ${unknownLanguages.length > 1 ? "them" : "it"}.
+      Fix VITE_KONTENT_LANGUAGES or pick the languages under Configure.
+    </div>`;
+}
+
+/**
+ * Render content type and slug element configuration interface
+ */
+export function renderSlugElementConfiguration(): string {
+  const mapping = getSlugElementMapping();
+
+  return `
+    <div class="config-section">
+      <h2 style="color: #495057; margin-top: 0;">Content Types &amp; Slug Elements</h2>
+      
+      <div style="margin-bottom: 20px;">
+        <strong>Current Mapping:</strong>
+        ${renderSlugElementMappingTable()}
+      </div>
+
+      <div style="margin-bottom: 20px;">
+        <label for="slug-elements-input" style="display: block; margin-bottom: 5px; font-weight: bold;">
+          Mapping (type:element, comma-separated):
+        </label>
+        <input 
+          id="slug-elements-input" 
+          type="text" 
+          placeholder="page:url_slug,page:slug,article:article_slug" 
+          value="${formatSlugElementMapping(mapping)}"
+          style="width: 100%; padding: 8px; border: 1px solid #ddd; border-radius: 4px;"
+        />
+        <div style="font-size: 12px; color: #666; margin-top: 5px;">
+          Repeat a type to add fallback slug elements in priority order (e.g., "page:url_slug,page:slug")
+        </div>
+      </div>
+
+      <div style="margin-bottom: 20px;">
+        <label for="scan-mode-select" style="display: block; margin-bottom: 5px; font-weight: bold;">
+          Scan Mode:
+        </label>
+        <select id="scan-mode-select" style="padding: 8px; border: 1px solid #ddd; border-radius: 4px;">
+          ${Object.entries(SCAN_MODE_LABELS)
+            .map(
+              ([mode, label]) =>
+                `<option value="${mode}" ${getScanMode() === mode ? "selected" : ""}>${label}</option>`,
+            )
+            .join("")}
+        </select>
+        <div style="font-size: 12px; color: #666; margin-top: 5px;">
+          Cross-type mode reports collisions between different content types routed under the same root;
+          hierarchical mode compares full paths composed from the slugs of each page's ancestors
+        </div>
+      </div>
+
+      <div style="margin-bottom: 20px;">
+        <label for="hierarchy-element-input" style="display: block; margin-bottom: 5px; font-weight: bold;">
+          Hierarchy Element (linked items):
+        </label>
+        <input 
+          id="hierarchy-element-input" 
+          type="text" 
+          placeholder="subpages" 
+          value="${appConfig.hierarchyElement || ""}"
+          style="width: 60%; padding: 8px; border: 1px solid #ddd; border-radius: 4px;"
+        />
+        <select id="hierarchy-relation-select" style="padding: 8px; border: 1px solid #ddd; border-radius: 4px;">
+          <option value="subpages" ${appConfig.hierarchyRelation !== "parent" ? "selected" : ""}>links to subpages</option>
+          <option value="parent" ${appConfig.hierarchyRelation === "parent" ? "selected" : ""}>links to parent</option>
+        </select>
+        <div style="font-size: 12px; color: #666; margin-top: 5px;">
+          Only used in hierarchical mode; ancestors must be of one of the configured content types
+        </div>
+      </div>
+
+      <div style="margin-bottom: 20px;">
+        <label for="route-prefixes-input" style="display: block; margin-bottom: 5px; font-weight: bold;">
+          Route Prefixes (type:prefix, comma-separated):
+        </label>
+        <input 
+          id="route-prefixes-input" 
+          type="text" 
+          placeholder="article:/blog/" 
+          value="${formatRoutePrefixes(appConfig.routePrefixes || {})}"
+          style="width: 100%; padding: 8px; border: 1px solid #ddd; border-radius: 4px;"
+        />
+        <div style="font-size: 12px; color: #666; margin-top: 5px;">
+          Used in cross-type and hierarchical mode; types without a prefix are routed under the root
+        </div>
+      </div>
+
+      <div style="margin-bottom: 20px;">
+        <strong style="display: block; margin-bottom: 5px;">Slug Normalization:</strong>
+        ${ALL_NORMALIZATION_RULES.map(
+          (rule) => `
+          <label style="display: block; margin-bottom: 4px;">
+            <input type="checkbox" class="normalization-rule" value="${rule}" ${getNormalizationRules().includes(rule) ? "checked" : ""} />
+            ${NORMALIZATION_STEPS[rule].label}
+          </label>`,
+        ).join("")}
+        <div style="font-size: 12px; color: #666; margin-top: 5px;">
+          Slugs that are equal after these rules are reported as duplicates
+        </div>
+      </div>
+
+      <div style="margin-bottom: 20px;">
+        <label for="similarity-threshold-input" style="display: block; margin-bottom: 5px; font-weight: bold;">
+          Similar Slug Threshold (0-1):
+        </label>
+        <input 
+          id="similarity-threshold-input" 
+          type="number" 
+          min="0" 
+          max="1" 
+          step="0.05" 
+          value="${getSimilarityThreshold()}"
+          style="width: 100px; padding: 8px; border: 1px solid #ddd; border-radius: 4px;"
+        />
+        <div style="font-size: 12px; color: #666; margin-top: 5px;">
+          Slugs with an edit or token similarity at or above this value are clustered as near-duplicates (0 disables)
+        </div>
+      </div>
+
+      <div style="margin-bottom: 15px;">
+        <button id="apply-slug-elements-btn" class="button button-success" style="margin-right: 10px;">
+          Apply Mapping
+        </button>
+        <button id="reset-slug-elements-btn" class="button button-secondary">
+          Reset to Default
+        </button>
+      </div>
+      
+      <div style="margin-top: 20px; padding: 10px; background: #d1ecf1; border-radius: 4px; font-size: 14px;">
+        <strong>💡 Saved Configuration:</strong><br>
+        • Only the listed content types are scanned for slugs<br>
+        • Changes are saved in this browser for this environment; "Reset to Default" forgets them<br>
+        • For the whole team, set VITE_KONTENT_SLUG_ELEMENTS, VITE_KONTENT_SCAN_MODE, VITE_KONTENT_ROUTE_PREFIXES, VITE_KONTENT_HIERARCHY_ELEMENT, VITE_KONTENT_HIERARCHY_RELATION, VITE_KONTENT_SLUG_NORMALIZATION and VITE_KONTENT_SIMILARITY_THRESHOLD in .env file<br>
+        • ${hasUserConfiguredSlugElements() ? "✅ Currently using your custom settings" : "📋 Currently using environment/default settings"}
+      </div>
+    </div>
+  `;
+}
+
+/**
+ * Render the type-to-slug-element mapping as a table
+ */
+function renderSlugElementMappingTable(): string {
+  const rows = Object.entries(getSlugElementMapping())
+    .map(
+      ([type, elements]) => `
+        <tr>
+          <td><code>${type}</code></td>
+          <td>${elements.map((element) => `<code>${element}</code>`).join(" → ")}</td>
+        </tr>`,
+    )
+    .join("");
+
+  return `
+    <table class="mapping-table">
+      <thead><tr><th>Content type</th><th>Slug elements</th></tr></thead>
+      <tbody>${rows}</tbody>
+    </table>
+  `;
+}
+
+/**
+ * Render configuration display, flagging configured languages the environment does not have
+ */
+export function renderConfiguration(unknownLanguages: string[] = []): string {
   const config = getConfigStatus();
 
   return `
@@ -141,25 +456,107 @@ export function renderConfiguration(): string {
         </div>
         <div style="font-size: 12px; color: #666; margin-top: 5px;">
           ${appConfig.languages?.length ? 
-            `Configured via VITE_KONTENT_LANGUAGES` : 
+            describeSettingsSource(getSettingsSource("languages"), "VITE_KONTENT_LANGUAGES") : 
             `Using default language: ${appConfig.defaultLanguage}`}
         </div>
+        ${renderUnknownLanguagesWarning(unknownLanguages)}
+      </div>
+      
+      <div style="margin-bottom: 15px;">
+        <div style="display: flex; align-items: center; justify-content: space-between; margin-bottom: 8px;">
+          <strong>Content Types &amp; Slug Elements:</strong>
+          <button id="configure-slug-elements-btn" class="button button-info small">
+            ⚙️ Configure
+          </button>
+        </div>
+        ${renderSlugElementMappingTable()}
+        <div style="font-size: 12px; color: #666; margin-top: 5px;">
+          ${getSettingsSource("slugElements") === "default" ? "Default mapping (page:url_slug,page:slug)" : describeSettingsSource(getSettingsSource("slugElements"), "VITE_KONTENT_SLUG_ELEMENTS")}
+          · Scan mode: ${SCAN_MODE_LABELS[getScanMode()].toLowerCase()}${getScanMode() === "hierarchical" ? ` via <code>${appConfig.hierarchyElement || "—"}</code>` : ""}
+        </div>
       </div>
       
-      <!-- <div style="margin-bottom: 15px;">
+      <div style="margin-bottom: 15px;">
         <strong>Delivery API Key:</strong>
         <div style="background: #e9ecef; padding: 10px; border-radius: 4px; font-family: monospace; margin-top: 5px;">
-          ${config.environmentId ? '<span style="color: green;">✓ Present</span>' : '<span style="color: red;">✗ Not Set</span>'}
+          ${config.hasDeliveryApiKey ? '<span style="color: green;">✓ Present</span>' : '<span style="color: #666;">Not set (public Delivery API)</span>'}
         </div>
       </div>
       
       <div style="margin-bottom: 15px;">
         <strong>Management API Key:</strong>
         <div style="background: #e9ecef; padding: 10px; border-radius: 4px; font-family: monospace; margin-top: 5px;">
-          ${config.environmentId ? '<span style="color: green;">✓ Present</span>' : '<span style="color: red;">✗ Not Set</span>'}
+          ${config.hasManagementApiKey ? '<span style="color: green;">✓ Present</span>' : '<span style="color: #666;">Not set</span>'}
         </div>
-      </div> -->
+        <div style="font-size: 12px; color: #666; margin-top: 5px;">
+          ${config.hasManagementApiKey ? "Drafts and unpublished variants are included in searches" : "Set VITE_KONTENT_MANAGEMENT_API_KEY to also check drafts and unpublished variants"}
+        </div>
+      </div>
       
+      <div style="margin-bottom: 15px;">
+        <strong>Content Mode:</strong>
+        <div style="display: flex; flex-wrap: wrap; align-items: center; gap: 8px; margin-top: 5px;">
+          <select id="content-mode-select" class="slug-input" style="max-width: 280px;">
+            ${(["published", "preview"] as ContentMode[])
+              .map(
+                (mode) =>
+                  `<option value="${mode}" ${(appConfig.contentMode || "published") === mode ? "selected" : ""}>${CONTENT_MODE_LABELS[mode]}</option>`,
+              )
+              .join("")}
+          </select>
+          <input id="preview-api-key-input" type="password" class="slug-input" style="max-width: 320px;" autocomplete="off"
+            placeholder="${config.hasPreviewApiKey ? "Preview API key set (enter to replace)" : "Preview API key"}">
+          <button id="apply-content-mode-btn" class="button button-secondary small">✅ Apply</button>
+        </div>
+        <div style="font-size: 12px; color: #666; margin-top: 5px;">
+          ${
+            appConfig.contentMode === "preview" && !config.hasPreviewApiKey
+              ? '<span style="color: #b45309;">⚠️ Preview mode needs a Preview API key; scans read the published content until one is set.</span>'
+              : getContentMode() === "preview"
+                ? "Scans read the latest versions, including changes that are not published yet."
+                : "Scans read the published versions."
+          }
+          The Preview API key (or VITE_KONTENT_PREVIEW_API_KEY) is kept for this session only.
+        </div>
+      </div>
+
+      ${renderScanFilters()}
+
+      ${renderUniquenessScope()}
+
+      ${renderSlugLintConfiguration()}
+
+      <div style="margin-bottom: 15px;">
+        <strong>Reserved Slugs:</strong>
+        <div style="display: grid; grid-template-columns: repeat(auto-fit, minmax(260px, 1fr)); gap: 8px; margin-top: 5px;">
+          <label style="font-size: 13px;">Reserved slugs
+            <input id="reserved-slugs-input" class="slug-input" placeholder="e.g. api,admin,login,search,en,de" value="${appConfig.reservedSlugs?.join(",") || ""}">
+          </label>
+          <label style="font-size: 13px;">Forbidden patterns (one per line)
+            <textarea id="forbidden-slug-patterns-input" class="slug-input" rows="3" placeholder="prefix:wp-&#10;regex:^\\d+$">${formatSlugPatternRules(appConfig.forbiddenSlugPatterns || [])}</textarea>
+          </label>
+        </div>
+        <button id="apply-reserved-slugs-btn" class="button button-secondary small" style="margin-top: 8px;">✅ Apply</button>
+        <div style="font-size: 12px; color: #666; margin-top: 5px;">
+          Patterns are <code>exact:</code>, <code>prefix:</code> or <code>regex:</code>, checked against the normalized slug (the routed path in cross-type and hierarchical modes).
+          Scans report items using them next to the duplicates.
+        </div>
+      </div>
+
+      <div style="margin-bottom: 15px;">
+        <strong>Saved Settings:</strong>
+        <div style="display: flex; flex-wrap: wrap; gap: 8px; margin-top: 5px;">
+          <button id="export-settings-btn" class="button button-secondary small">📤 Export settings</button>
+          <button id="import-settings-btn" class="button button-secondary small">📥 Import settings</button>
+          <button id="clear-settings-btn" class="button button-secondary small">🗑️ Forget saved settings</button>
+          <input id="import-settings-input" type="file" accept="application/json,.json" style="display: none;">
+        </div>
+        <div style="font-size: 12px; color: #666; margin-top: 5px;">
+          Languages and scan settings are saved per environment in this browser (API keys never are).
+          Precedence, highest first: saved settings → custom app configuration JSON → VITE_KONTENT_* variables → defaults.
+        </div>
+      </div>
+
       <div style="margin-top: 20px; padding: 10px; background: #d1ecf1; border-radius: 4px; font-size: 14px;">
         <strong>Note:</strong> Check the browser console for detailed configuration logs.
       </div>
@@ -167,6 +564,148 @@ export function renderConfiguration(): string {
   `;
 }
 
+/**
+ * Render the scan filters and how collections share URL space
+ */
+function renderScanFilters(): string {
+  const filters = getScanFilters();
+
+  return `
+      <div style="margin-bottom: 15px;">
+        <strong>Scan Filters:</strong>
+        <div style="display: grid; grid-template-columns: repeat(auto-fit, minmax(220px, 1fr)); gap: 8px; margin-top: 5px;">
+          <label style="font-size: 13px;">Collections
+            <input id="filter-collections-input" class="slug-input" placeholder="e.g. brand_a,brand_b" value="${filters.collections?.join(",") || ""}">
+          </label>
+          <label style="font-size: 13px;">Workflow steps
+            <input id="filter-workflow-steps-input" class="slug-input" placeholder="e.g. draft,review" value="${filters.workflowSteps?.join(",") || ""}">
+          </label>
+          <label style="font-size: 13px;">Taxonomy terms
+            <input id="filter-taxonomy-input" class="slug-input" placeholder="e.g. category:news|events" value="${formatTaxonomyFilter(filters.taxonomy)}">
+          </label>
+          <label style="font-size: 13px;">Modified on or after
+            <input id="filter-modified-after-input" type="date" class="slug-input" value="${filters.modifiedAfter?.slice(0, 10) || ""}">
+          </label>
+          <label style="font-size: 13px;">Modified before
+            <input id="filter-modified-before-input" type="date" class="slug-input" value="${filters.modifiedBefore?.slice(0, 10) || ""}">
+          </label>
+          <label style="font-size: 13px;">Collections
+            <select id="collection-scope-select" class="slug-input">
+              ${(["per-collection", "cross-collection"] as CollectionScope[])
+                .map(
+                  (scope) =>
+                    `<option value="${scope}" ${getCollectionScope() === scope ? "selected" : ""}>${COLLECTION_SCOPE_LABELS[scope]}</option>`,
+                )
+                .join("")}
+            </select>
+          </label>
+        </div>
+        <div style="display: flex; gap: 8px; margin-top: 8px;">
+          <button id="apply-filters-btn" class="button button-secondary small">✅ Apply filters</button>
+          <button id="clear-filters-btn" class="button button-secondary small">🧹 Clear filters</button>
+        </div>
+        <div style="font-size: 12px; color: #666; margin-top: 5px;">
+          Active filters: ${describeFilters(filters)}.
+          Workflow steps only narrow preview content and Management API drafts; published content has no other step.
+          ${getCollectionScope() === "per-collection" ? "The same slug in two collections is not reported." : "Slugs collide across collections."}
+        </div>
+      </div>`;
+}
+
+/**
+ * Render which languages share URL space
+ */
+function renderUniquenessScope(): string {
+  const scope = getUniquenessScope();
+
+  return `
+      <div style="margin-bottom: 15px;">
+        <strong>Slug Uniqueness:</strong>
+        <div style="display: grid; grid-template-columns: repeat(auto-fit, minmax(220px, 1fr)); gap: 8px; margin-top: 5px;">
+          <label style="font-size: 13px;">Languages
+            <select id="uniqueness-scope-select" class="slug-input">
+              ${(Object.keys(UNIQUENESS_SCOPE_LABELS) as UniquenessScope[])
+                .map(
+                  (option) =>
+                    `<option value="${option}" ${scope === option ? "selected" : ""}>${UNIQUENESS_SCOPE_LABELS[option]}</option>`,
+                )
+                .join("")}
+            </select>
+          </label>
+          <label style="font-size: 13px;">Language groups
+            <input id="language-groups-input" class="slug-input" placeholder="e.g. en,en-gb;de,de-at" value="${formatLanguageGroups(appConfig.languageGroups || [])}">
+          </label>
+        </div>
+        <label style="display: block; font-size: 13px; margin-top: 8px;">
+          <input id="include-fallbacks-checkbox" type="checkbox" ${getIncludeFallbacks() ? "checked" : ""}>
+          Check items served through language fallbacks with the slug they inherit
+        </label>
+        <button id="apply-uniqueness-btn" class="button button-secondary small" style="margin-top: 8px;">✅ Apply</button>
+        <div style="font-size: 12px; color: #666; margin-top: 5px;">
+          Slugs must be unique ${describeUniquenessScope(scope, appConfig.languageGroups)}.
+          With locale-prefixed routes (<code>/en/...</code>, <code>/de/...</code>) the same slug in two languages never collides.
+          Items served through fallbacks are always listed, and only take part in the duplicate check when checked.
+        </div>
+      </div>`;
+}
+
+/**
+ * Render the severity of each slug lint rule, the maximum length and the per-language overrides
+ */
+function renderSlugLintConfiguration(): string {
+  const settings = resolveLintSettings(appConfig.slugLint, "");
+
+  return `
+      <div style="margin-bottom: 15px;">
+        <strong>Slug Lint Rules:</strong>
+        <table class="mapping-table" style="margin-top: 5px;">
+          <thead><tr><th>Rule</th><th>Severity</th></tr></thead>
+          <tbody>
+            ${ALL_SLUG_LINT_RULES.map(
+              (rule) => `
+            <tr>
+              <td>${SLUG_LINT_RULES[rule].label} <code>${rule}</code></td>
+              <td>
+                <select class="slug-input lint-severity-select" data-rule="${rule}" style="max-width: 140px;">
+                  ${LINT_SEVERITIES.map((severity) => `<option value="${severity}" ${settings.severities[rule] === severity ? "selected" : ""}>${severity}</option>`).join("")}
+                </select>
+              </td>
+            </tr>`,
+            ).join("")}
+          </tbody>
+        </table>
+        <div style="display: grid; grid-template-columns: repeat(auto-fit, minmax(220px, 1fr)); gap: 8px; margin-top: 8px;">
+          <label style="font-size: 13px;">Maximum length
+            <input id="lint-max-length-input" type="number" min="1" class="slug-input" value="${settings.maxLength}">
+          </label>
+          <label style="font-size: 13px;">Per-language overrides
+            <input id="lint-languages-input" class="slug-input" placeholder="e.g. zh:non-ascii=off;ja:non-ascii=off" value="${formatSlugLintLanguages(appConfig.slugLint?.languages || {})}">
+          </label>
+        </div>
+        <button id="apply-slug-lint-btn" class="button button-secondary small" style="margin-top: 8px;">✅ Apply</button>
+        <div style="font-size: 12px; color: #666; margin-top: 5px;">
+          Every scanned slug is checked; the Slug Health report lists the issues with a proposed fix.
+          Slugs over ${DEFAULT_MAX_SLUG_LENGTH} characters are too long unless another maximum is set.
+        </div>
+      </div>`;
+}
+
+/**
+ * Describe where a setting comes from
+ */
+function describeSettingsSource(source: SettingsSource, envVar: string): string {
+  switch (source) {
+    case "browser":
+      return "Saved in this browser";
+    case "custom-app":
+      return "Configured in the custom app configuration";
+    case "env":
+      return `Configured via ${envVar}`;
+    default:
+      return "Default settings";
+  }
+}
+
 /**
  * Render search results
  */
@@ -182,7 +721,7 @@ export function renderSearchResults(result: ApiResult, targetSlug: string): stri
     return `
       <div class="status-warning">
         <h3 style="margin-top:0;">No Results Found</h3>
-        <p>No pages found with slug "<strong>${targetSlug}</strong>" in any language.</p>
+        <p>No items found with slug "<strong>${targetSlug}</strong>" in any language.</p>
         <p style="color:#666; font-style:italic; margin-top:12px;">The search looks for exact matches across all available languages in your Kontent.ai project.</p>
       </div>
       ${debugInfo}
@@ -197,7 +736,7 @@ export function renderSearchResults(result: ApiResult, targetSlug: string): stri
 
   return `
     <div class="status-success">
-      <h2 style="margin-top:0;">✅ Found ${items.length} page(s) with slug "${targetSlug}"</h2>
+      <h2 style="margin-top:0;">✅ Found ${items.length} item(s) with slug "${targetSlug}"</h2>
       <div class="search-stats">
         <div class="stat-item">
           <span class="stat-number">${items.length}</span>
@@ -213,6 +752,8 @@ export function renderSearchResults(result: ApiResult, targetSlug: string): stri
       </div>
       ${renderItemCards(items)}
     </div>
+    ${renderFallbackReport(result.fallbacks, getIncludeFallbacks())}
+    ${renderSlugHealthReport(result.slugHealth)}
     ${debugInfo}
   `;
 }
@@ -226,32 +767,387 @@ export function renderDuplicateResults(result: DuplicateResult): string {
   }
 
   const duplicates = result.duplicates || [];
-  const statsHtml = renderStatsBox(result);
+  const statsHtml =
+    renderIncompleteWarning(result) + renderStatsBox(result) + renderReservedSlugViolations(result);
+  const healthHtml =
+    renderFallbackReport(result.fallbacks, result.includeFallbacks) +
+    renderSlugHealthReport(result.slugHealth);
 
   if (duplicates.length === 0) {
     return `${statsHtml}
       <div class="status-warning">
         <h3 style="margin-top:0;">✅ No Duplicate Slugs Found</h3>
-        <p>All page slugs in your environment are unique!</p>
-      </div>`;
+        <p>${result.incomplete ? "No duplicates among the items scanned before cancelling." : "All slugs of the configured content types are unique!"}</p>
+      </div>
+      ${healthHtml}`;
+  }
+  return `${statsHtml}
+    <div class="status-error">
+      <h2 style="margin-top:0;">⚠️ Found ${duplicates.length} Duplicate Slug${duplicates.length > 1 ? "s" : ""}</h2>
+      ${renderDuplicateCards(toDuplicateGroups(duplicates), { showSlugVersions: result.contentMode === "preview" })}
+    </div>
+    ${healthHtml}`;
+}
+
+/**
+ * Render a language pill, marked when the language is served through a fallback
+ */
+function renderLanguagePill(language: string, fallbackFrom?: string): string {
+  return fallbackFrom
+    ? `<span class="lang-pill">${language}</span> <span style="color:#666; font-size:12px;">(${describeFallback(fallbackFrom)})</span>`
+    : `<span class="lang-pill">${language}</span>`;
+}
+
+/**
+ * Count the variants served through fallbacks
+ */
+function countFallbacks(fallbacks: LanguageFallbacks[]): number {
+  return fallbacks.reduce((sum, group) => sum + group.items.length, 0);
+}
+
+/**
+ * Render the items each language serves through fallbacks
+ */
+function renderFallbackReport(
+  fallbacks: LanguageFallbacks[] | undefined,
+  included: boolean | undefined,
+): string {
+  if (!fallbacks?.length) return "";
+
+  return `
+    <div class="status-warning">
+      <h3 style="margin-top:0;">🔁 ${countFallbacks(fallbacks)} Variant(s) Served via Fallback</h3>
+      <p>These items have no variant of their own in the language and inherit the slug of the language they fall back to.
+      ${included ? "They are included in the duplicate check." : "They are not checked for duplicates; enable it under Show Config → Slug Uniqueness."}</p>
+      <table class="mapping-table">
+        <thead><tr><th>Language</th><th>Item</th><th>Slug</th><th>Served</th></tr></thead>
+        <tbody>
+          ${fallbacks
+            .flatMap(({ language, items }) =>
+              items.map(
+                (item) => `
+          <tr>
+            <td><span class="lang-pill">${language}</span></td>
+            <td>${item.name} <code>${item.codename}</code></td>
+            <td><code>${item.slug}</code></td>
+            <td>${item.fallbackFrom ? describeFallback(item.fallbackFrom) : ""}</td>
+          </tr>`,
+              ),
+            )
+            .join("")}
+        </tbody>
+      </table>
+    </div>`;
+}
+
+/**
+ * Render the slug lint findings with their proposed fixes
+ */
+function renderSlugHealthReport(health: SlugHealthReport | undefined): string {
+  if (!health) return "";
+  const { findings, counts } = health;
+
+  if (findings.length === 0) {
+    return `
+    <div class="status-success">
+      <h3 style="margin-top:0;">🩺 Slug Health</h3>
+      <p>All ${health.checkedSlugs} slugs pass the lint rules.</p>
+    </div>`;
   }
-  // Adapt DuplicateItem[] shape to DuplicateGroup[] expected by renderDuplicateCards
-  const adaptedDuplicates: DuplicateGroup[] = duplicates.map((d) => ({
+
+  return `
+    <div class="${counts.error ? "status-error" : "status-warning"}">
+      <h2 style="margin-top:0;">🩺 Slug Health: ${findings.length} of ${health.checkedSlugs} slugs with issues</h2>
+      <div class="duplicate-stats" style="margin-bottom: 12px;">
+        <span class="severity-pill severity-error">${counts.error} errors</span>
+        <span class="severity-pill severity-warning">${counts.warning} warnings</span>
+        <span class="severity-pill">${counts.info} info</span>
+      </div>
+      <table class="mapping-table">
+        <thead><tr><th>Item</th><th>Language</th><th>Slug</th><th>Issues</th><th>Proposed fix</th></tr></thead>
+        <tbody>
+          ${findings
+            .slice(0, MAX_LINT_ROWS)
+            .map(
+              (finding) => `
+          <tr>
+            <td>${finding.name} <code>${finding.codename}</code></td>
+            <td>${finding.id ? renderEditorLink(finding.id, finding.language, finding.language) : `<span class="lang-pill">${finding.language}</span>`}</td>
+            <td><code>${finding.slug}</code></td>
+            <td><span class="severity-pill severity-${highestSeverity(finding.issues)}">${highestSeverity(finding.issues)}</span> ${finding.issues.map(describeLintIssue).join(", ")}</td>
+            <td>${finding.fixedSlug ? `<code>${finding.fixedSlug}</code>` : '<span style="color:#666;">—</span>'}</td>
+          </tr>`,
+            )
+            .join("")}
+        </tbody>
+      </table>
+      ${findings.length > MAX_LINT_ROWS ? `<div class="item-meta">Showing ${MAX_LINT_ROWS} of ${findings.length} slugs; export the report for the full list.</div>` : ""}
+    </div>`;
+}
+
+/**
+ * Describe a lint issue with its severity as a tooltip
+ */
+function describeLintIssue(issue: SlugLintIssue): string {
+  return `<span title="${issue.severity}">${issue.message}</span>`;
+}
+
+/**
+ * Render the items using reserved slugs or slugs matching a forbidden pattern
+ */
+function renderReservedSlugViolations(result: DuplicateResult): string {
+  const violations = result.reservedSlugViolations || [];
+  if (violations.length === 0) return "";
+
+  return `
+    <div class="status-error">
+      <h2 style="margin-top:0;">🚫 ${violations.length} Reserved Slug${violations.length > 1 ? "s" : ""} in Use</h2>
+      <table class="mapping-table">
+        <thead><tr><th>Slug</th><th>Rule</th><th>Items</th></tr></thead>
+        <tbody>
+          ${violations
+            .map(
+              (violation) => `
+            <tr>
+              <td><span class="slug-value">${violation.slug}</span></td>
+              <td><code>${describeSlugRule(violation.rule)}</code></td>
+              <td>${violation.items
+                .map(
+                  (item) =>
+                    `${item.name} <code>${item.codename}</code> ${(item.languages || [item.language]).map((lang) => (item.id ? renderEditorLink(item.id, lang, lang) : `<span class="lang-pill">${lang}</span>`)).join(" ")}`,
+                )
+                .join("<br>")}</td>
+            </tr>`,
+            )
+            .join("")}
+        </tbody>
+      </table>
+    </div>`;
+}
+
+/**
+ * Adapt DuplicateItem[] shape to DuplicateGroup[] expected by renderDuplicateCards
+ */
+function toDuplicateGroups(duplicates: DuplicateItem[]): DuplicateGroup[] {
+  return duplicates.map((d) => ({
     slug: d.slug,
+    types: d.types,
+    crossType: d.crossType,
+    collections: d.collections,
+    crossCollection: d.crossCollection,
+    languageSpace: d.languageSpace,
+    variants: d.variants,
+    collisionRules: d.collisionRules,
+    keeper: d.keeper,
+    suggestions: d.suggestions,
     items: d.items.map((i) => ({
       name: i.name,
       codename: i.codename,
-      languages: [i.language],
+      type: i.type,
+      slug: i.slug,
+      languages: i.languages || [i.language],
       language: i.language,
+      id: i.id,
       slugField: i.slugField,
-      languageCount: 1,
+      languageCount: i.languages?.length || 1,
+      collection: i.collection,
+      workflowSteps: i.workflowSteps,
+      publishStates: i.publishStates,
+      slugVersions: i.slugVersions,
+      ancestors: i.ancestors,
+      fallbacks: i.fallbacks,
     })),
   }));
+}
 
-  return `${statsHtml}
-    <div class="status-error">
-      <h2 style="margin-top:0;">⚠️ Found ${duplicates.length} Duplicate Slug${duplicates.length > 1 ? "s" : ""}</h2>
-      ${renderDuplicateCards(adaptedDuplicates)}
+/**
+ * Render the collisions pending changes introduce or resolve once they are published
+ */
+export function renderPreviewComparison(comparison: PreviewComparison): string {
+  if (comparison.error) {
+    return `<p style="color:red; background:#ffe6e6; padding:10px; border-radius:4px;"><strong>Error:</strong> ${comparison.error}</p>`;
+  }
+
+  const { published, preview, upcoming, resolved, unchanged } = comparison;
+
+  return `
+    ${renderIncompleteWarning({ duplicates: [], incomplete: comparison.incomplete })}
+    <div class="stats-box">
+      <h3 style="margin-top:0; color:#0066cc;">🔀 Published vs. Preview</h3>
+      <div style="font-size:14px;">
+        <strong>Duplicate slugs in published content:</strong> ${published.duplicates.length}<br>
+        <strong>Duplicate slugs in latest versions:</strong> ${preview.duplicates.length}<br>
+        <strong>Upcoming collisions:</strong> ${upcoming.length}<br>
+        <strong>Collisions resolved by pending changes:</strong> ${resolved.length}<br>
+        <strong>Unchanged collisions:</strong> ${unchanged}<br>
+      </div>
+    </div>
+    ${
+      upcoming.length
+        ? `<div class="status-error">
+      <h2 style="margin-top:0;">⚠️ ${upcoming.length} Collision${upcoming.length > 1 ? "s" : ""} Once Pending Changes Go Live</h2>
+      ${renderDuplicateCards(toDuplicateGroups(upcoming), { resolvable: false, showSlugVersions: true })}
+    </div>`
+        : `<div class="status-warning">
+      <h3 style="margin-top:0;">✅ No New Collisions</h3>
+      <p>Publishing the pending changes introduces no duplicate slugs.</p>
+    </div>`
+    }
+    ${
+      resolved.length
+        ? `<div class="status-warning">
+      <h3 style="margin-top:0;">🎉 Resolved Once Published</h3>
+      <p>${resolved.map((duplicate) => `<code>${duplicate.slug}</code>`).join(" ")}</p>
+    </div>`
+        : ""
+    }`;
+}
+
+/**
+ * Render buttons to download the current results as CSV, JSON or Excel-friendly CSV
+ */
+export function renderExportActions(): string {
+  return `
+    <div class="export-actions">
+      <strong>📥 Export:</strong>
+      <button class="button button-secondary export-btn" data-format="csv">CSV</button>
+      <button class="button button-secondary export-btn" data-format="json">JSON</button>
+      <button class="button button-secondary export-btn" data-format="excel">Excel (CSV)</button>
+    </div>
+  `;
+}
+
+/**
+ * Render the progress bar of a running scan with an action to cancel it
+ */
+export function renderScanProgress(): string {
+  return `
+    <div id="scan-progress" class="export-actions" style="flex-wrap: wrap;">
+      <strong>🔎 Scanning:</strong>
+      <div style="flex: 1; min-width: 200px; height: 10px; background: #e5e7eb; border-radius: 5px; overflow: hidden;">
+        <div id="scan-progress-bar" style="width: 0%; height: 100%; background: #2563eb; transition: width 0.2s;"></div>
+      </div>
+      <button class="button button-secondary" id="cancel-scan-btn">✖️ Cancel</button>
+      <div id="scan-progress-text" style="width: 100%; font-size: 13px; color: #4b5563;">Starting scan...</div>
+    </div>
+  `;
+}
+
+/**
+ * Describe scan progress with the share done and the estimated time left
+ */
+export function describeScanProgress(progress: ScanProgress, elapsedMs: number): string {
+  const percent = Math.round(progress.fraction * 100);
+  const eta =
+    progress.fraction > 0.05 && progress.fraction < 1
+      ? ` · about ${formatDuration((elapsedMs * (1 - progress.fraction)) / progress.fraction)} left`
+      : "";
+  return `${percent}% · ${progress.message} · ${progress.itemsSoFar} items so far${eta}`;
+}
+
+/**
+ * Format a duration as milliseconds, seconds or minutes
+ */
+function formatDuration(ms: number): string {
+  if (ms < 1000) return `${Math.round(ms)} ms`;
+  const seconds = Math.ceil(ms / 1000);
+  return seconds < 60 ? `${seconds}s` : `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+}
+
+/**
+ * Render a warning that the scan was cancelled and its results only cover part of the content
+ */
+function renderIncompleteWarning(result: DuplicateResult): string {
+  if (!result.incomplete) return "";
+
+  return `
+    <div class="status-warning" style="margin-bottom: 10px;">
+      <strong>⏹️ Scan cancelled:</strong> these results are incomplete and only cover the items
+      fetched before cancelling. Run the scan again for a full report.
+    </div>`;
+}
+
+/**
+ * Render the freshness of the local slug index with an action to rebuild it
+ */
+export function renderIndexStatus(status: SlugIndexStatus): string {
+  const builtAt = new Date(status.builtAt).toLocaleString();
+  const updatedAt = new Date(status.updatedAt).toLocaleString();
+
+  return `
+    <div class="export-actions">
+      <strong>🗂️ Slug index:</strong>
+      ${
+        status.mode === "full"
+          ? `rebuilt from a full scan at ${builtAt}`
+          : `synced ${status.changedItems} change(s) at ${updatedAt} · built ${builtAt}`
+      }
+      <button class="button button-secondary" id="rebuild-index-btn">🔄 Rebuild index</button>
+    </div>
+  `;
+}
+
+/**
+ * Render the chain of ancestors of a page, from the root page down to its direct parent
+ */
+function renderAncestorChain(ancestors: PathAncestor[]): string {
+  return ancestors
+    .map(
+      (ancestor) =>
+        `<span title="${ancestor.codename}">${ancestor.name}</span> <span class="slug-value">${ancestor.slug}</span>`,
+    )
+    .join(" › ");
+}
+
+/**
+ * Render clusters of similar (near-duplicate) slugs
+ */
+export function renderSimilarSlugResults(result: DuplicateResult): string {
+  if (result.error || !result.similarClusters) return "";
+
+  const clusters = result.similarClusters;
+  if (clusters.length === 0) {
+    return `
+      <div class="similar-section">
+        <h3 style="margin-top:0;">✅ No Similar Slugs Found</h3>
+        <p>No near-duplicate slugs reached the similarity threshold.</p>
+      </div>`;
+  }
+
+  return `
+    <div class="similar-section">
+      <h2 style="margin-top:0;">🔎 Found ${clusters.length} Cluster${clusters.length > 1 ? "s" : ""} of Similar Slugs</h2>
+      <p style="color:#666;">Different content items with slugs this close may compete for the same search queries.</p>
+      ${clusters
+        .map(
+          (cluster) => `
+        <div class="similar-card">
+          <div class="similar-header">
+            ${cluster.slugs.map((slug) => `<span class="slug-value">${slug}</span>`).join(" ")}
+            ${cluster.namespace ? `<span class="type-pill">${cluster.namespace}</span>` : ""}
+          </div>
+          <ul class="similar-pairs">
+            ${cluster.pairs
+              .map(
+                (pair) => `
+              <li>
+                <code>${pair.a}</code> ↔ <code>${pair.b}</code>
+                — ${Math.round(pair.score * 100)}% ${pair.reason === "edit-distance" ? `(edit distance ${pair.distance})` : "(token overlap)"}
+              </li>`,
+              )
+              .join("")}
+          </ul>
+          <div class="item-meta">
+            ${cluster.slugs
+              .map(
+                (slug) =>
+                  `<div><span class="slug-value">${slug}</span>: ${(cluster.codenames?.[slug] || []).map((codename) => `<code>${codename}</code>`).join(", ")}</div>`,
+              )
+              .join("")}
+          </div>
+        </div>`,
+        )
+        .join("")}
     </div>`;
 }
 
@@ -284,7 +1180,7 @@ function renderDebugInfo(result: ApiResult): string {
         Total items fetched: ${debug.deliveryApiAllItems?.totalItems || 0}<br>
         Total unique slugs: ${debug.deliveryApiAllItems?.allSlugsCount || 0}<br>
         Exact slug matches: ${debug.deliveryApiAllItems?.exactMatches || 0}<br>
-        Case-insensitive matches: ${debug.deliveryApiAllItems?.caseInsensitiveMatches || 0}<br>
+        Normalized matches (case, slashes, unicode): ${debug.deliveryApiAllItems?.caseInsensitiveMatches || 0}<br>
         Similar slugs: ${debug.deliveryApiAllItems?.similarSlugs?.join(", ") || "None"}<br>
       </div>
       
@@ -297,6 +1193,9 @@ function renderDebugInfo(result: ApiResult): string {
             const ok = debug.managementApi.success;
             return `Success: ${ok ? "✅" : "❌"}`;
           })()}<br>
+          Items found: ${debug.managementApi.items?.length || 0}<br>
+          Total variants fetched: ${debug.managementApi.totalItems || 0}<br>
+          ${debug.managementApi.error ? `Error: ${debug.managementApi.error}<br>` : ""}
           Note: ${debug.managementApi.note || "No additional info"}
         </div>
       `
@@ -345,6 +1244,9 @@ function renderItemCards(items: ContentItem[]): string {
               <div><strong>Type:</strong> ${item.type}</div>
               <div><strong>Slug:</strong> <span class="slug-value">${item.slug}</span></div>
               <div><strong>Field type:</strong> <span style="font-family:monospace; color:#666;">${item.slugField}</span></div>
+              ${item.fallbackFrom ? `<div><strong>Served:</strong> ${describeFallback(item.fallbackFrom)}</div>` : ""}
+              ${item.publishState ? `<div><strong>Status:</strong> ${renderPublishState(item.publishState)}${item.workflowStep ? ` <span style="color:#666;">(${item.workflowStep})</span>` : ""}</div>` : ""}
+              ${item.id ? `<div>${renderEditorLink(item.id, item.language, "Open in Kontent.ai")}</div>` : ""}
             </div>
           </div>
         `,
@@ -360,9 +1262,13 @@ function renderItemCards(items: ContentItem[]): string {
 /**
  * Render duplicate cards
  */
-function renderDuplicateCards(duplicates: DuplicateGroup[]): string {
+function renderDuplicateCards(
+  duplicates: DuplicateGroup[],
+  options: { resolvable?: boolean; showSlugVersions?: boolean } = {},
+): string {
+  const { resolvable = true, showSlugVersions = false } = options;
   return duplicates
-    .map((d: DuplicateGroup) => {
+    .map((d: DuplicateGroup, index: number) => {
       const contentItemsCount = d.items.length;
       const totalLanguageVariants = d.items.reduce(
         (sum: number, item: DuplicateSummaryItem) => sum + (item.languageCount || 1),
@@ -376,6 +1282,9 @@ function renderDuplicateCards(duplicates: DuplicateGroup[]): string {
           <div class="duplicate-stats">
             <span class="stat-badge stat-danger">${contentItemsCount} different content items</span>
             <span class="stat-badge stat-info">${totalLanguageVariants} total variants</span>
+            ${d.crossType ? `<span class="stat-badge stat-warning">Cross-type: ${d.types?.join(", ")}</span>` : ""}
+            ${d.crossCollection ? `<span class="stat-badge stat-warning">Cross-collection: ${d.collections?.join(", ")}</span>` : ""}
+            ${d.languageSpace ? `<span class="stat-badge stat-info">URL space: ${d.languageSpace}</span>` : ""}
           </div>
         </div>
         
@@ -383,6 +1292,14 @@ function renderDuplicateCards(duplicates: DuplicateGroup[]): string {
           <div class="duplicate-explanation">
             <strong>⚠️ Duplicate Issue:</strong> ${contentItemsCount} different content items are using the same slug "${d.slug}"
           </div>
+          ${
+            d.collisionRules?.length
+              ? `<div class="duplicate-explanation">
+            <strong>Variants:</strong> ${d.variants?.map((variant) => `<code>${variant}</code>`).join(" ")}<br>
+            <strong>Collide after:</strong> ${d.collisionRules.map((rule) => NORMALIZATION_STEPS[rule].label).join(", ")}
+          </div>`
+              : ""
+          }
           
           <div class="content-items">
             ${d.items
@@ -394,19 +1311,34 @@ function renderDuplicateCards(duplicates: DuplicateGroup[]): string {
                   <span class="codename-badge">Codename: ${item.codename}</span>
                 </div>
                 <div class="content-details">
+                  ${item.type ? `<div class="item-meta"><strong>Content type:</strong> <span class="type-pill">${item.type}</span></div>` : ""}
+                  ${item.collection ? `<div class="item-meta"><strong>Collection:</strong> <span class="type-pill">${item.collection}</span></div>` : ""}
+                  ${item.slug && item.slug !== d.slug ? `<div class="item-meta"><strong>Slug:</strong> <span class="slug-value">${item.slug}</span></div>` : ""}
+                  ${item.ancestors?.length ? `<div class="item-meta"><strong>Ancestors:</strong> ${renderAncestorChain(item.ancestors)}</div>` : ""}
                   <div class="item-meta">
-                    <strong>Languages:</strong> ${item.languages ? item.languages.map((lang: string) => `<span class="lang-pill">${lang}</span>`).join(" ") : item.language}
+                    <strong>Languages:</strong> ${item.languages ? item.languages.map((lang: string) => renderLanguagePill(lang, item.fallbacks?.[lang])).join(" ") : item.language}
                   </div>
                   <div class="item-meta">
                     <strong>Field type:</strong> <span class="field-type">${item.slugField}</span>
                   </div>
+                  ${item.slugVersions?.length && (showSlugVersions || item.slugVersions.includes("latest")) ? `<div class="item-meta"><strong>Slug from:</strong> ${item.slugVersions.map(renderSlugVersion).join(" ")}</div>` : ""}
+                  ${item.publishStates?.length ? `<div class="item-meta"><strong>Status:</strong> ${item.publishStates.map(renderPublishState).join(" ")}${item.workflowSteps?.length ? ` <span style="color:#666;">(${item.workflowSteps.join(", ")})</span>` : ""}</div>` : ""}
                   ${item.languageCount > 1 ? `<div class="item-meta"><strong>Total language variants:</strong> ${item.languageCount}</div>` : ""}
+                  ${item.id ? `<div class="item-meta"><strong>Open in Kontent.ai:</strong> ${item.languages.map((lang) => renderEditorLink(item.id as string, lang, lang)).join(" ")}</div>` : ""}
                 </div>
               </div>
             `,
               )
               .join("")}
           </div>
+          ${renderSlugSuggestions(d)}
+          ${
+            resolvable
+              ? `<div class="resolution" id="resolution-${index}">
+            <button class="button button-secondary resolve-btn" data-index="${index}">🛠️ Resolve this duplicate</button>
+          </div>`
+              : ""
+          }
         </div>
       </div>
     `;
@@ -414,6 +1346,476 @@ function renderDuplicateCards(duplicates: DuplicateGroup[]): string {
     .join("");
 }
 
+/**
+ * Render the proposed keeper and replacement slugs of a duplicate group
+ */
+function renderSlugSuggestions(d: DuplicateGroup): string {
+  if (!d.keeper || !d.suggestions?.length) return "";
+
+  return `
+    <div class="suggestions">
+      <strong>💡 Suggested fixes:</strong>
+      <div class="item-meta">Keep <strong>${d.keeper.name}</strong> on "${d.slug}" — ${d.keeper.reason}</div>
+      <ul class="suggestion-list">
+        ${d.suggestions
+          .map(
+            (suggestion) => `
+          <li>
+            <strong>${suggestion.name}</strong> <span class="lang-pill">${suggestion.language}</span>
+            <code>${suggestion.currentSlug}</code> → <code>${suggestion.suggestedSlug}</code>
+            <span style="color:#666;">— ${suggestion.reason}</span>
+          </li>`,
+          )
+          .join("")}
+      </ul>
+    </div>`;
+}
+
+/**
+ * Render the bulk resolution form of a duplicate group: the editor picks the item that keeps
+ * the slug and accepts or edits the replacement of every other language variant
+ */
+export function renderResolutionPanel(duplicate: DuplicateItem, index: number): string {
+  if (!appConfig.managementApiKey) {
+    return `<p style="color:#b45309;">Resolving duplicates writes slugs through the Management API. Configure a Management API key first.</p>`;
+  }
+
+  const keeper = duplicate.keeper?.codename || duplicate.items[0]?.codename;
+  const variants = listDuplicateVariants(duplicate);
+
+  return `
+    <div class="resolution-panel" data-index="${index}">
+      <strong>🛠️ Resolve "${duplicate.slug}"</strong>
+      <div class="item-meta">Keep the slug on:</div>
+      ${duplicate.items
+        .map(
+          (item) => `
+        <label style="display:block;">
+          <input type="radio" name="keeper-${index}" class="keeper-radio" value="${item.codename}" ${item.codename === keeper ? "checked" : ""}>
+          ${item.name} <code>${item.codename}</code>
+        </label>`,
+        )
+        .join("")}
+      <table class="mapping-table resolution-table">
+        <thead><tr><th>Item</th><th>Language</th><th>Current slug</th><th>New slug</th></tr></thead>
+        <tbody>
+          ${variants
+            .map(
+              (variant) => `
+            <tr data-codename="${variant.codename}">
+              <td>${variant.name}${variant.publishStates?.includes("published") ? ` ${renderPublishState("published")}` : ""}</td>
+              <td><span class="lang-pill">${variant.language}</span></td>
+              <td><code>${variant.currentSlug}</code></td>
+              <td>${
+                variant.fallbackFrom
+                  ? `<span style="color:#666;">${describeFallback(variant.fallbackFrom)}; translate the item to change it</span>`
+                  : `<input type="text" class="replacement-input" data-key="${variantKey(variant.codename, variant.language)}" value="${variant.suggestedSlug || ""}" placeholder="new-slug">`
+              }</td>
+            </tr>`,
+            )
+            .join("")}
+        </tbody>
+      </table>
+      <div class="item-meta" style="color:#666;">Published variants get a new version holding the new slug; publish it to make the change live.</div>
+      <div class="resolution-actions">
+        <button class="button button-secondary dry-run-btn" data-index="${index}">Dry run</button>
+        <button class="button apply-fixes-btn" data-index="${index}">Apply changes</button>
+      </div>
+      <div class="resolution-output"></div>
+    </div>`;
+}
+
+/**
+ * Render per-variant results of a resolution (or of its dry run)
+ */
+export function renderFixResults(results: SlugFixResult[], errors: string[] = []): string {
+  const failed = results.filter((result) => result.status === "failed").length;
+
+  return `
+    ${errors.length ? `<div class="duplicate-explanation"><strong>Not planned:</strong><ul>${errors.map((error) => `<li>${error}</li>`).join("")}</ul></div>` : ""}
+    ${
+      results.length
+        ? `<table class="mapping-table">
+      <thead><tr><th>Item</th><th>Language</th><th>Change</th><th>Result</th></tr></thead>
+      <tbody>
+        ${results
+          .map(
+            (result) => `
+          <tr>
+            <td><code>${result.fix.codename}</code></td>
+            <td><span class="lang-pill">${result.fix.language}</span></td>
+            <td><code>${result.fix.currentSlug}</code> → <code>${result.fix.newSlug}</code></td>
+            <td>${renderFixStatus(result)}</td>
+          </tr>`,
+          )
+          .join("")}
+      </tbody>
+    </table>
+    <div class="item-meta">${results.length - failed} of ${results.length} variant(s) ${results[0]?.status === "dry-run" ? "can be updated" : "processed successfully"}.</div>`
+        : ""
+    }`;
+}
+
+/**
+ * Render the outcome of one slug change
+ */
+function renderFixStatus(result: SlugFixResult): string {
+  if (result.status === "failed") {
+    return `<span style="color:#c53030;">❌ ${result.error}</span>`;
+  }
+  const version = result.newVersionCreated ? " (new version)" : "";
+  return result.status === "dry-run"
+    ? `🔍 Would update${version}`
+    : `<span style="color:#2f855a;">✅ Updated${version}</span>`;
+}
+
+/**
+ * Render the button that reverts the last applied resolution
+ */
+export function renderUndoAction(changeCount: number): string {
+  if (changeCount === 0) return "";
+
+  return `
+    <div class="export-actions">
+      <strong>↩️ Undo log:</strong> ${changeCount} slug change(s) from the last resolution
+      <button class="button button-secondary" id="undo-resolution-btn">Undo last resolution</button>
+    </div>`;
+}
+
+/**
+ * Render the form generating redirects from slug changes: the changes applied in the app,
+ * an uploaded CSV or JSON file and pasted "old,new,language" lines
+ */
+export function renderRedirectPanel(changeCount: number, liveSlugCount: number): string {
+  return `
+    <div class="config-section">
+      <h3 style="margin-top:0;">🔀 Redirects for Changed Slugs</h3>
+      <div style="margin-bottom: 15px;">
+        <label>
+          <input id="redirect-use-app-changes" type="checkbox" ${changeCount ? "checked" : "disabled"} />
+          Slug changes applied in this app (${changeCount})
+        </label>
+      </div>
+
+      <div style="margin-bottom: 15px;">
+        <label for="redirect-changes-file" style="display: block; margin-bottom: 5px; font-weight: bold;">
+          Upload changes (CSV or JSON):
+        </label>
+        <input id="redirect-changes-file" type="file" accept=".csv,.json,.txt" />
+        <div style="font-size: 12px; color: #666; margin-top: 5px;">
+          CSV with old_slug and new_slug columns (a duplicate scan export works), or a JSON list of changes
+        </div>
+      </div>
+
+      <div style="margin-bottom: 15px;">
+        <label for="redirect-changes-text" style="display: block; margin-bottom: 5px; font-weight: bold;">
+          Or paste changes (old,new,language per line):
+        </label>
+        <textarea
+          id="redirect-changes-text"
+          rows="4"
+          placeholder="old-article,new-article,en"
+          style="width: 100%; padding: 8px; border: 1px solid #ddd; border-radius: 4px; font-family: monospace;"
+        ></textarea>
+      </div>
+
+      <div style="margin-bottom: 15px;">
+        <label for="url-patterns-input" style="display: block; margin-bottom: 5px; font-weight: bold;">
+          URL Patterns (language:pattern, comma-separated):
+        </label>
+        <input
+          id="url-patterns-input"
+          type="text"
+          placeholder="en:/{slug},de:/de/{slug}"
+          value="${escapeHtml(formatUrlPatterns(appConfig.urlPatterns || {}))}"
+          style="width: 100%; padding: 8px; border: 1px solid #ddd; border-radius: 4px;"
+        />
+        <div style="font-size: 12px; color: #666; margin-top: 5px;">
+          {slug} and {language} are replaced; "*" applies to all other languages, which default to /{slug}
+        </div>
+      </div>
+
+      <div class="item-meta" style="margin-bottom: 15px;">
+        ${
+          liveSlugCount
+            ? `Redirect sources are checked against the ${liveSlugCount} live slugs of the last duplicate scan.`
+            : 'Run "Find All Duplicates" first to check that no redirect source is still a live slug.'
+        }
+      </div>
+      <button id="generate-redirects-btn" class="button button-primary">Generate Redirects</button>
+      <div id="redirect-output" style="margin-top: 15px;"></div>
+    </div>`;
+}
+
+/**
+ * Render the generated redirects with their issues and download buttons per server format
+ */
+export function renderRedirectMap(map: RedirectMap): string {
+  const { rules, issues } = map;
+
+  return `
+    ${
+      issues.length
+        ? `<div class="${issues.some((issue) => issue.severity === "error") ? "status-error" : "status-warning"}">
+      <h3 style="margin-top:0;">⚠️ ${issues.length} Redirect Issue${issues.length > 1 ? "s" : ""}</h3>
+      <ul>
+        ${issues.map((issue) => `<li><span class="severity-pill severity-${issue.severity}">${issue.kind}</span> ${escapeHtml(issue.message)}</li>`).join("")}
+      </ul>
+    </div>`
+        : ""
+    }
+    ${
+      rules.length
+        ? `<div class="export-actions">
+      <strong>📥 Download:</strong>
+      ${REDIRECT_FORMATS.map((format) => `<button class="button button-secondary redirect-download-btn" data-format="${format}">${redirectFileName(format)}</button>`).join("")}
+    </div>
+    <table class="mapping-table">
+      <thead><tr><th>From</th><th>To</th><th>Language</th><th>Item</th></tr></thead>
+      <tbody>
+        ${rules
+          .slice(0, MAX_REDIRECT_ROWS)
+          .map(
+            (rule) => `
+        <tr>
+          <td><code>${escapeHtml(rule.from)}</code></td>
+          <td><code>${escapeHtml(rule.to)}</code></td>
+          <td>${rule.language ? `<span class="lang-pill">${escapeHtml(rule.language)}</span>` : ""}</td>
+          <td>${rule.codename ? `<code>${escapeHtml(rule.codename)}</code>` : ""}</td>
+        </tr>`,
+          )
+          .join("")}
+      </tbody>
+    </table>
+    ${rules.length > MAX_REDIRECT_ROWS ? `<div class="item-meta">Showing ${MAX_REDIRECT_ROWS} of ${rules.length} redirects; download a file for the full list.</div>` : ""}`
+        : '<p style="color:#666;">No redirects: none of the changes moves a URL.</p>'
+    }`;
+}
+
+/**
+ * Render the form reconciling live URLs with the slugs of a scan: an uploaded sitemap, URL list
+ * or CSV file, a sitemap URL or pasted URLs
+ */
+export function renderReconciliationPanel(): string {
+  return `
+    <div class="config-section">
+      <h3 style="margin-top:0;">🗺️ Reconcile Slugs with Live URLs</h3>
+      <div style="margin-bottom: 15px;">
+        <label for="reconcile-file" style="display: block; margin-bottom: 5px; font-weight: bold;">
+          Upload sitemap.xml, URL list or CSV:
+        </label>
+        <input id="reconcile-file" type="file" accept=".xml,.txt,.csv" />
+        <div style="font-size: 12px; color: #666; margin-top: 5px;">
+          Sitemap indexes are followed; CSV files use their url, loc or address column (e.g. a crawler export)
+        </div>
+      </div>
+
+      <div style="margin-bottom: 15px;">
+        <label for="reconcile-url-input" style="display: block; margin-bottom: 5px; font-weight: bold;">
+          Or sitemap URL:
+        </label>
+        <input
+          id="reconcile-url-input"
+          type="text"
+          placeholder="https://www.example.com/sitemap.xml"
+          style="width: 100%; padding: 8px; border: 1px solid #ddd; border-radius: 4px;"
+        />
+        <div style="font-size: 12px; color: #666; margin-top: 5px;">
+          The site must allow cross-origin requests; otherwise download the sitemap and upload it
+        </div>
+      </div>
+
+      <div style="margin-bottom: 15px;">
+        <label for="reconcile-text" style="display: block; margin-bottom: 5px; font-weight: bold;">
+          Or paste URLs (one per line):
+        </label>
+        <textarea
+          id="reconcile-text"
+          rows="4"
+          placeholder="https://www.example.com/de/ueber-uns"
+          style="width: 100%; padding: 8px; border: 1px solid #ddd; border-radius: 4px; font-family: monospace;"
+        ></textarea>
+      </div>
+
+      <div style="margin-bottom: 15px;">
+        <label for="url-patterns-input" style="display: block; margin-bottom: 5px; font-weight: bold;">
+          URL Patterns (language:pattern, comma-separated):
+        </label>
+        <input
+          id="url-patterns-input"
+          type="text"
+          placeholder="en:/{slug},de:/de/{slug}"
+          value="${escapeHtml(formatUrlPatterns(appConfig.urlPatterns || {}))}"
+          style="width: 100%; padding: 8px; border: 1px solid #ddd; border-radius: 4px;"
+        />
+        <div style="font-size: 12px; color: #666; margin-top: 5px;">
+          Map URLs back to slugs; {slug} stands for the routed path in cross-type and hierarchical mode
+        </div>
+      </div>
+
+      <button id="run-reconcile-btn" class="button button-primary">Scan &amp; Reconcile</button>
+      <div id="reconcile-output" style="margin-top: 15px;"></div>
+    </div>`;
+}
+
+/**
+ * Render the reconciliation of live URLs with the slugs of a scan
+ */
+export function renderUrlReconciliation(report: UrlReconciliation): string {
+  const { orphanUrls, orphanItems, ambiguousUrls, warnings } = report;
+
+  return `
+    ${renderIncompleteWarning({ duplicates: [], incomplete: report.incomplete })}
+    ${
+      warnings.length
+        ? `<div class="status-warning" style="margin-bottom: 10px;">
+      <strong>⚠️ Not loaded:</strong>
+      <ul>${warnings.map((warning) => `<li>${escapeHtml(warning)}</li>`).join("")}</ul>
+    </div>`
+        : ""
+    }
+    <div class="stats-box">
+      <h3 style="margin-top:0; color:#0066cc;">🗺️ URL Reconciliation</h3>
+      <div style="font-size:14px;">
+        <strong>URLs checked:</strong> ${report.checkedUrls}<br>
+        <strong>Slugs checked:</strong> ${report.checkedSlugs}<br>
+        <strong>URLs matching one content item:</strong> ${report.matchedUrls}<br>
+        <strong>URLs without content item:</strong> ${orphanUrls.length}<br>
+        <strong>Content items without URL:</strong> ${orphanItems.length}<br>
+        <strong>URLs resolving to several items:</strong> ${ambiguousUrls.length}<br>
+      </div>
+    </div>
+    ${
+      orphanUrls.length + orphanItems.length + ambiguousUrls.length === 0
+        ? `<div class="status-success">
+      <h3 style="margin-top:0;">✅ URLs and Slugs Match</h3>
+      <p>Every URL resolves to exactly one content item and every slug has a URL.</p>
+    </div>`
+        : ""
+    }
+    ${
+      ambiguousUrls.length
+        ? `<div class="status-error" style="margin-bottom: 10px;">
+      <h3 style="margin-top:0;">🔀 URLs Resolving to Several Items</h3>
+      ${renderReconciledUrls(ambiguousUrls)}
+    </div>`
+        : ""
+    }
+    ${
+      orphanUrls.length
+        ? `<div class="status-warning" style="margin-bottom: 10px;">
+      <h3 style="margin-top:0;">👻 URLs Without Content Item</h3>
+      ${renderReconciledUrls(orphanUrls)}
+    </div>`
+        : ""
+    }
+    ${
+      orphanItems.length
+        ? `<div class="status-warning">
+      <h3 style="margin-top:0;">📭 Content Items Without URL</h3>
+      ${renderLiveSlugTable(orphanItems)}
+    </div>`
+        : ""
+    }`;
+}
+
+/**
+ * Render URLs with the slugs they map back to and the items holding them
+ */
+function renderReconciledUrls(urls: ReconciledUrl[]): string {
+  return `
+      <table class="mapping-table">
+        <thead><tr><th>URL</th><th>Slug</th><th>Items</th></tr></thead>
+        <tbody>
+          ${urls
+            .slice(0, MAX_RECONCILIATION_ROWS)
+            .map(
+              (entry) => `
+          <tr>
+            <td><code>${escapeHtml(entry.url)}</code></td>
+            <td>${entry.candidates.map((candidate) => `<span class="lang-pill">${escapeHtml(candidate.language)}</span> <code>${escapeHtml(candidate.slug)}</code>`).join("<br>") || '<span style="color:#666;">No URL pattern matches</span>'}</td>
+            <td>${entry.items.map((item) => `${escapeHtml(item.name)} <code>${escapeHtml(item.codename)}</code> ${renderLiveSlugLanguage(item)}`).join("<br>") || '<span style="color:#666;">—</span>'}</td>
+          </tr>`,
+            )
+            .join("")}
+        </tbody>
+      </table>
+      ${urls.length > MAX_RECONCILIATION_ROWS ? `<div class="item-meta">Showing ${MAX_RECONCILIATION_ROWS} of ${urls.length} URLs; export the report for the full list.</div>` : ""}`;
+}
+
+/**
+ * Render the language of a content item, linked to its variant in the item editor
+ */
+function renderLiveSlugLanguage(item: LiveSlug): string {
+  return item.id
+    ? renderEditorLink(item.id, item.language, item.language)
+    : renderLanguagePill(item.language);
+}
+
+/**
+ * Render content items with the routed path of their slug
+ */
+function renderLiveSlugTable(items: LiveSlug[]): string {
+  return `
+      <table class="mapping-table">
+        <thead><tr><th>Item</th><th>Type</th><th>Language</th><th>Slug</th></tr></thead>
+        <tbody>
+          ${items
+            .slice(0, MAX_RECONCILIATION_ROWS)
+            .map(
+              (item) => `
+          <tr>
+            <td>${escapeHtml(item.name)} <code>${escapeHtml(item.codename)}</code></td>
+            <td>${escapeHtml(item.type)}</td>
+            <td>${renderLiveSlugLanguage(item)}</td>
+            <td><code>${escapeHtml(item.path)}</code></td>
+          </tr>`,
+            )
+            .join("")}
+        </tbody>
+      </table>
+      ${items.length > MAX_RECONCILIATION_ROWS ? `<div class="item-meta">Showing ${MAX_RECONCILIATION_ROWS} of ${items.length} items; export the report for the full list.</div>` : ""}`;
+}
+
+/**
+ * Render a link that opens a language variant in the Kontent.ai item editor. Inside the custom
+ * app the environment comes from the app context, standalone from the configuration.
+ */
+function renderEditorLink(itemId: string, language: string, label: string): string {
+  const environmentId = getCustomAppEnvironmentId() || appConfig.environmentId;
+  if (!environmentId) return "";
+
+  return `<a class="editor-link" href="${buildItemEditorUrl(environmentId, itemId, language)}" target="_blank" rel="noopener noreferrer" title="Edit the ${language} variant in Kontent.ai">↗ ${label}</a>`;
+}
+
+/**
+ * Render a pill telling whether a slug was read from the published or the latest version
+ */
+function renderSlugVersion(version: SlugVersion): string {
+  return `<span class="version-pill version-${version}">${version === "published" ? "published version" : "latest version"}</span>`;
+}
+
+/**
+ * Render a published/draft state pill
+ */
+function renderPublishState(state: PublishState): string {
+  return `<span class="state-pill state-${state}">${state}</span>`;
+}
+
+/**
+ * Render how long the requests took side by side, compared to running them one after another
+ */
+function renderRequestTimings(timings: RequestTiming[] | undefined): string {
+  const summary = summarizeRequestTimings(timings || []);
+  if (!summary) return "";
+
+  return `
+    <strong>Request time:</strong> ${formatDuration(summary.elapsedMs)}
+    (${formatDuration(summary.totalMs)} one after another)<br>
+    <strong>Slowest request:</strong> ${summary.slowest.label} (${formatDuration(summary.slowest.durationMs)})<br>
+    ${summary.failed ? `<strong>Failed requests:</strong> ${summary.failed}<br>` : ""}`;
+}
+
 /**
  * Render statistics box
  */
@@ -425,9 +1827,18 @@ function renderStatsBox(result: DuplicateResult): string {
       <h3 style="margin-top:0; color:#0066cc;">Search Statistics</h3>
       <div style="font-size:14px;">
         <strong>Total API requests:</strong> ${result.totalRequests || "N/A"}<br>
-        <strong>Total page items processed:</strong> ${result.totalItems || "N/A"}<br>
+        ${renderRequestTimings(result.timings)}
+        <strong>Total items processed:</strong> ${result.totalItems || "N/A"}<br>
         <strong>Unique slugs found:</strong> ${result.uniqueSlugs || "N/A"}<br>
         <strong>Duplicate slugs found:</strong> ${duplicates.length}<br>
+        ${result.reservedSlugViolations ? `<strong>Reserved slugs in use:</strong> ${result.reservedSlugViolations.length}<br>` : ""}
+        ${result.normalization ? `<strong>Slug normalization:</strong> ${result.normalization.length ? result.normalization.map((rule) => NORMALIZATION_STEPS[rule].label).join(", ") : "None (raw slugs)"}<br>` : ""}
+        ${result.scanMode ? `<strong>Scan mode:</strong> ${SCAN_MODE_LABELS[result.scanMode]}<br>` : ""}
+        ${result.contentMode ? `<strong>Content:</strong> ${CONTENT_MODE_LABELS[result.contentMode]}<br>` : ""}
+        ${result.collectionScope ? `<strong>Collections:</strong> ${COLLECTION_SCOPE_LABELS[result.collectionScope]}<br>` : ""}
+        ${result.fallbacks ? `<strong>Served via fallback:</strong> ${countFallbacks(result.fallbacks)} variant(s)${result.includeFallbacks ? ", included in the duplicate check" : ", not checked for duplicates"}<br>` : ""}
+        ${result.uniquenessScope ? `<strong>Unique:</strong> ${describeUniquenessScope(result.uniquenessScope, result.languageGroups)}<br>` : ""}
+        ${result.filters ? `<strong>Filters:</strong> ${describeFilters(result.filters)}<br>` : ""}
       </div>
       <div style="margin-top:10px; font-size:12px; color:#666;">
         Check browser console for detailed pagination logs
@@ -2,21 +2,111 @@
  * Configuration management for Kontent.ai environment and API keys
  */
 
-import { getCustomAppContext } from "@kontent-ai/custom-app-sdk";
-import type { AppConfig } from "../types";
-
-// Global configuration instance
-export const appConfig: AppConfig = {
-  environmentId: "",
-  deliveryApiKey: "",
-  managementApiKey: "",
-  languages: [],
-  defaultLanguage: "en"
+import { isNormalizationRule } from "../services/normalize";
+import { isLintSeverity, isSlugLintRule } from "../services/slug-lint";
+import type {
+  AppConfig,
+  CollectionScope,
+  ContentMode,
+  HierarchyRelation,
+  NormalizationRule,
+  ScanFilters,
+  ScanMode,
+  SlugElementMapping,
+  SlugLintSettings,
+  SlugPatternRule,
+  TaxonomyFilter,
+  UniquenessScope,
+} from "../types";
+import {
+  SETTINGS_KEYS,
+  type SettingsKey,
+  type SettingsSource,
+  type StoredSettings,
+  clearStoredSettings,
+  loadStoredSettings,
+  parseSettingsFile,
+  pickSettings,
+  sanitizeSettings,
+  saveStoredSettings,
+  serializeSettings,
+} from "./settings";
+
+export { SETTINGS_KEYS, type SettingsKey, type SettingsSource } from "./settings";
+
+// Content types and slug elements scanned when nothing else is configured
+export const DEFAULT_SLUG_ELEMENTS: SlugElementMapping = {
+  page: ["url_slug", "slug"],
 };
 
+// Normalization rules applied when nothing else is configured
+export const DEFAULT_NORMALIZATION: NormalizationRule[] = [
+  "trim-whitespace",
+  "trim-slashes",
+  "nfc",
+  "lowercase",
+];
+
+// URL of a slug when no pattern is configured for its language
+export const DEFAULT_URL_PATTERN = "/{slug}";
+
+// Similarity (0-1) at which two distinct slugs are reported as near-duplicates
+export const DEFAULT_SIMILARITY_THRESHOLD = 0.85;
+
+// API requests running at the same time, well below the Delivery API rate limits
+export const DEFAULT_CONCURRENCY = 4;
+
+/**
+ * Create a configuration with default settings, e.g. to scan another environment side by side
+ */
+export function createAppConfig(overrides: Partial<AppConfig> = {}): AppConfig {
+  return {
+    environmentId: "",
+    deliveryApiKey: "",
+    managementApiKey: "",
+    languages: [],
+    defaultLanguage: "en",
+    slugElements: { ...DEFAULT_SLUG_ELEMENTS },
+    scanMode: "per-type",
+    routePrefixes: {},
+    normalization: [...DEFAULT_NORMALIZATION],
+    similarityThreshold: DEFAULT_SIMILARITY_THRESHOLD,
+    hierarchyElement: "",
+    hierarchyRelation: "subpages",
+    previewApiKey: "",
+    contentMode: "published",
+    concurrency: DEFAULT_CONCURRENCY,
+    filters: {},
+    collectionScope: "per-collection",
+    uniquenessScope: "global",
+    languageGroups: [],
+    includeFallbacks: false,
+    urlPatterns: {},
+    reservedSlugs: [],
+    forbiddenSlugPatterns: [],
+    slugLint: {},
+    ...overrides,
+  };
+}
+
+// Global configuration instance edited by the UI; services receive it through a scanner
+export const appConfig: AppConfig = createAppConfig();
+
 // Flag to track if user has manually configured languages
 let userHasConfiguredLanguages = false;
 
+// Flag to track if user has manually configured content types and slug elements
+let userHasConfiguredSlugElements = false;
+
+// Environment the app is embedded in, when it runs as a custom app inside Kontent.ai
+let customAppEnvironmentId: string | null = null;
+
+// Source of each setting that is not a default (see SettingsSource for the precedence)
+const settingsSources: Partial<Record<SettingsKey, SettingsSource>> = {};
+
+// Settings covered by the language configuration; all others belong to the scan configuration
+export const LANGUAGE_SETTINGS: SettingsKey[] = ["languages", "defaultLanguage"];
+
 /**
  * Mark that user has manually configured languages (should not be overwritten)
  */
@@ -39,40 +129,176 @@ export function resetUserConfiguredLanguages(): void {
   console.log("🔄 Reset user language configuration flag");
 }
 
+/**
+ * Mark that user has manually configured the slug element mapping (should not be overwritten)
+ */
+export function setUserConfiguredSlugElements(): void {
+  userHasConfiguredSlugElements = true;
+}
+
+/**
+ * Check if user has manually configured the slug element mapping
+ */
+export function hasUserConfiguredSlugElements(): boolean {
+  return userHasConfiguredSlugElements;
+}
+
+/**
+ * Get the environment of the Kontent.ai custom app context (null when running standalone)
+ */
+export function getCustomAppEnvironmentId(): string | null {
+  return customAppEnvironmentId;
+}
+
 /**
  * Initialize configuration from environment variables and Kontent.ai context
  */
 export async function initializeConfig(): Promise<void> {
   // Get environment variables as fallback (mainly for standalone testing)
   appConfig.environmentId = getEnvVar("VITE_KONTENT_ENVIRONMENT_ID") || "";
+  appConfig.deliveryApiKey = getEnvVar("VITE_KONTENT_DELIVERY_API_KEY") || "";
+  appConfig.managementApiKey = getEnvVar("VITE_KONTENT_MANAGEMENT_API_KEY") || "";
+  // A key entered in the config screen is kept for the session
+  appConfig.previewApiKey = appConfig.previewApiKey || getEnvVar("VITE_KONTENT_PREVIEW_API_KEY") || "";
+  const envConcurrency = getEnvVar("VITE_KONTENT_CONCURRENCY");
+  if (envConcurrency) {
+    appConfig.concurrency = parseConcurrency(envConcurrency);
+  }
   
   // Configure languages from environment variables ONLY if user hasn't manually configured them
+  const envSettings: StoredSettings = {};
   if (!userHasConfiguredLanguages) {
     const envLanguages = getEnvVar("VITE_KONTENT_LANGUAGES");
     if (envLanguages) {
-      appConfig.languages = envLanguages.split(",").map(lang => lang.trim());
+      envSettings.languages = envLanguages.split(",").map(lang => lang.trim());
     }
     
     const envDefaultLanguage = getEnvVar("VITE_KONTENT_DEFAULT_LANGUAGE");
     if (envDefaultLanguage) {
-      appConfig.defaultLanguage = envDefaultLanguage.trim();
+      envSettings.defaultLanguage = envDefaultLanguage.trim();
     }
   }
 
+  // Configure content types and slug elements ONLY if user hasn't manually configured them
+  if (!userHasConfiguredSlugElements) {
+    const envSlugElements = getEnvVar("VITE_KONTENT_SLUG_ELEMENTS");
+    if (envSlugElements) {
+      envSettings.slugElements = parseSlugElementMapping(envSlugElements);
+    }
+
+    const envScanMode = getEnvVar("VITE_KONTENT_SCAN_MODE");
+    if (envScanMode) {
+      envSettings.scanMode = parseScanMode(envScanMode);
+    }
+
+    const envRoutePrefixes = getEnvVar("VITE_KONTENT_ROUTE_PREFIXES");
+    if (envRoutePrefixes) {
+      envSettings.routePrefixes = parseRoutePrefixes(envRoutePrefixes);
+    }
+
+    const envHierarchyElement = getEnvVar("VITE_KONTENT_HIERARCHY_ELEMENT");
+    if (envHierarchyElement) {
+      envSettings.hierarchyElement = envHierarchyElement.trim();
+    }
+
+    const envHierarchyRelation = getEnvVar("VITE_KONTENT_HIERARCHY_RELATION");
+    if (envHierarchyRelation) {
+      envSettings.hierarchyRelation = parseHierarchyRelation(envHierarchyRelation);
+    }
+
+    const envNormalization = getEnvVar("VITE_KONTENT_SLUG_NORMALIZATION");
+    if (envNormalization) {
+      envSettings.normalization = parseNormalizationRules(envNormalization);
+    }
+
+    const envSimilarityThreshold = getEnvVar("VITE_KONTENT_SIMILARITY_THRESHOLD");
+    if (envSimilarityThreshold) {
+      envSettings.similarityThreshold = parseSimilarityThreshold(envSimilarityThreshold);
+    }
+
+    const envContentMode = getEnvVar("VITE_KONTENT_CONTENT_MODE");
+    if (envContentMode) {
+      envSettings.contentMode = parseContentMode(envContentMode);
+    }
+
+    const envCollections = getEnvVar("VITE_KONTENT_COLLECTIONS");
+    if (envCollections) {
+      envSettings.filters = { collections: parseList(envCollections) };
+    }
+
+    const envCollectionScope = getEnvVar("VITE_KONTENT_COLLECTION_SCOPE");
+    if (envCollectionScope) {
+      envSettings.collectionScope = parseCollectionScope(envCollectionScope);
+    }
+
+    const envUniquenessScope = getEnvVar("VITE_KONTENT_UNIQUENESS_SCOPE");
+    if (envUniquenessScope) {
+      envSettings.uniquenessScope = parseUniquenessScope(envUniquenessScope);
+    }
+
+    const envLanguageGroups = getEnvVar("VITE_KONTENT_LANGUAGE_GROUPS");
+    if (envLanguageGroups) {
+      envSettings.languageGroups = parseLanguageGroups(envLanguageGroups);
+    }
+
+    const envIncludeFallbacks = getEnvVar("VITE_KONTENT_INCLUDE_FALLBACKS");
+    if (envIncludeFallbacks) {
+      envSettings.includeFallbacks = envIncludeFallbacks.trim() === "true";
+    }
+
+    const envUrlPatterns = getEnvVar("VITE_KONTENT_URL_PATTERNS");
+    if (envUrlPatterns) {
+      envSettings.urlPatterns = parseUrlPatterns(envUrlPatterns);
+    }
+
+    const envReservedSlugs = getEnvVar("VITE_KONTENT_RESERVED_SLUGS");
+    if (envReservedSlugs) {
+      envSettings.reservedSlugs = parseList(envReservedSlugs);
+    }
+
+    const envSlugPatterns = getEnvVar("VITE_KONTENT_FORBIDDEN_SLUG_PATTERNS");
+    if (envSlugPatterns) {
+      envSettings.forbiddenSlugPatterns = parseSlugPatternRules(envSlugPatterns);
+    }
+
+    const envSlugLint = getEnvVar("VITE_KONTENT_SLUG_LINT");
+    const envSlugLintLanguages = getEnvVar("VITE_KONTENT_SLUG_LINT_LANGUAGES");
+    if (envSlugLint || envSlugLintLanguages) {
+      envSettings.slugLint = {
+        ...parseSlugLintSettings(envSlugLint),
+        languages: parseSlugLintLanguages(envSlugLintLanguages),
+      };
+    }
+  }
+  applySettings(envSettings, "env");
+
   console.log("🔧 Environment variables loaded:", {
-    hasEnvironmentId: Boolean(appConfig.environmentId)
+    hasEnvironmentId: Boolean(appConfig.environmentId),
+    hasDeliveryApiKey: Boolean(appConfig.deliveryApiKey),
+    hasManagementApiKey: Boolean(appConfig.managementApiKey),
+    hasPreviewApiKey: Boolean(appConfig.previewApiKey),
   });
 
   // Try to get context from Kontent.ai Custom App SDK (preferred source)
   try {
     console.log("🔍 Attempting to get Custom App context...");
+    // Imported lazily: the SDK throws on import when not hosted in an iframe (e.g. in the CLI)
+    const { getCustomAppContext } = await import("@kontent-ai/custom-app-sdk");
     const ctx = await getCustomAppContext();
     console.log("📋 Custom App Context response:", ctx);
 
     if (!ctx.isError && ctx.context?.environmentId) {
       // Use Environment ID from Kontent.ai context (preferred and most reliable)
       appConfig.environmentId = ctx.context.environmentId;
+      customAppEnvironmentId = ctx.context.environmentId;
       console.log("✅ Using Environment ID from Kontent.ai context:", appConfig.environmentId);
+
+      // Settings from the custom app configuration JSON override the environment variables
+      const customAppSettings = sanitizeSettings(ctx.config);
+      if (Object.keys(customAppSettings).length > 0) {
+        applySettings(omitUserConfigured(customAppSettings), "custom-app");
+        console.log("✅ Applied settings from the custom app configuration:", customAppSettings);
+      }
     } else {
       console.log("⚠️ Custom App context not available or incomplete");
     }
@@ -81,23 +307,585 @@ export async function initializeConfig(): Promise<void> {
     console.log("📝 This is normal when testing outside Kontent.ai iframe");
   }
 
+  // Settings saved in this browser for the environment take precedence over everything else
+  applySettings(omitUserConfigured(loadStoredSettings(appConfig.environmentId)), "browser");
+
   logConfiguration();
 }
 
+/**
+ * Apply settings to the global configuration and remember where they came from
+ */
+function applySettings(settings: StoredSettings, source: SettingsSource): void {
+  Object.assign(appConfig, settings);
+  for (const key of Object.keys(settings) as SettingsKey[]) {
+    settingsSources[key] = source;
+  }
+}
+
+/**
+ * Drop the settings the user changed in this session, so re-initializing keeps them
+ */
+function omitUserConfigured(settings: StoredSettings): StoredSettings {
+  return Object.fromEntries(
+    Object.entries(settings).filter(([key]) =>
+      LANGUAGE_SETTINGS.includes(key as SettingsKey)
+        ? !userHasConfiguredLanguages
+        : !userHasConfiguredSlugElements,
+    ),
+  );
+}
+
+/**
+ * Get where a setting currently comes from
+ */
+export function getSettingsSource(key: SettingsKey): SettingsSource {
+  return settingsSources[key] || "default";
+}
+
+/**
+ * Save the given settings of the global configuration in this browser for the current environment
+ */
+export function persistSettings(keys: readonly SettingsKey[] = SETTINGS_KEYS): void {
+  const settings = pickSettings(appConfig, keys);
+  saveStoredSettings(appConfig.environmentId, settings);
+  applySettings(settings, "browser");
+}
+
+/**
+ * Forget the given settings saved in this browser for the current environment
+ */
+export function forgetSettings(keys: readonly SettingsKey[] = SETTINGS_KEYS): void {
+  clearStoredSettings(appConfig.environmentId, keys);
+  for (const key of keys) {
+    delete settingsSources[key];
+  }
+}
+
+/**
+ * Forget all saved settings and fall back to the defaults, so the next initialization applies
+ * the custom app configuration and environment variables again
+ */
+export function resetSettings(): void {
+  forgetSettings();
+  Object.assign(appConfig, pickSettings(createAppConfig()));
+  userHasConfiguredLanguages = false;
+  userHasConfiguredSlugElements = false;
+}
+
+/**
+ * Export the persistable settings of the global configuration as a JSON settings file
+ */
+export function exportSettings(): string {
+  return serializeSettings(appConfig.environmentId, pickSettings(appConfig));
+}
+
+/**
+ * Import a JSON settings file into the global configuration and save it in this browser
+ */
+export function importSettings(text: string): StoredSettings {
+  const settings = parseSettingsFile(text);
+  Object.assign(appConfig, settings);
+  persistSettings(Object.keys(settings) as SettingsKey[]);
+  return settings;
+}
+
 /**
  * Get the configured languages or fallback to default
  */
-export function getConfiguredLanguages(): string[] {
-  const languages = appConfig.languages && appConfig.languages.length > 0 
-    ? appConfig.languages 
-    : [appConfig.defaultLanguage || "en"];
+export function getConfiguredLanguages(config: AppConfig = appConfig): string[] {
+  const languages = config.languages && config.languages.length > 0 
+    ? config.languages 
+    : [config.defaultLanguage || "en"];
   
   // Only log when languages are actually being retrieved for search operations
-  console.log(`🌐 Using languages: [${languages.join(', ')}] ${userHasConfiguredLanguages ? '(user configured)' : '(default/env)'}`);
+  console.log(`🌐 Using languages: [${languages.join(', ')}]`);
   
   return languages;
 }
 
+/**
+ * Get the configured type-to-slug-element mapping or fallback to default
+ */
+export function getSlugElementMapping(config: AppConfig = appConfig): SlugElementMapping {
+  const mapping = config.slugElements;
+  return mapping && Object.keys(mapping).length > 0 ? mapping : DEFAULT_SLUG_ELEMENTS;
+}
+
+/**
+ * Get the content type codenames that are scanned for slugs
+ */
+export function getConfiguredContentTypes(config: AppConfig = appConfig): string[] {
+  return Object.keys(getSlugElementMapping(config));
+}
+
+/**
+ * Get every slug element codename used by any configured content type
+ */
+export function getConfiguredSlugElements(config: AppConfig = appConfig): string[] {
+  return [...new Set(Object.values(getSlugElementMapping(config)).flat())];
+}
+
+/**
+ * Get every element codename requested from the Delivery API: the slug elements, plus the
+ * hierarchy element in "hierarchical" mode
+ */
+export function getScannedElements(config: AppConfig = appConfig): string[] {
+  const elements = getConfiguredSlugElements(config);
+  const hierarchyElement = getHierarchyElement(config);
+  return hierarchyElement ? [...new Set([...elements, hierarchyElement])] : elements;
+}
+
+/**
+ * Parse a mapping in the form "page:url_slug,page:slug,article:article_slug".
+ * Repeating a type adds fallback elements in priority order.
+ */
+export function parseSlugElementMapping(value: string): SlugElementMapping {
+  const mapping: SlugElementMapping = {};
+
+  for (const entry of value.split(",")) {
+    const [type, element] = entry.split(":").map((part) => part.trim());
+    if (!type || !element) continue;
+
+    mapping[type] = [...(mapping[type] || []), element];
+  }
+
+  return mapping;
+}
+
+/**
+ * Format a mapping back to its "type:element" comma-separated form
+ */
+export function formatSlugElementMapping(mapping: SlugElementMapping): string {
+  return Object.entries(mapping)
+    .flatMap(([type, elements]) => elements.map((element) => `${type}:${element}`))
+    .join(",");
+}
+
+/**
+ * Get the configured scan mode
+ */
+export function getScanMode(config: AppConfig = appConfig): ScanMode {
+  return config.scanMode || "per-type";
+}
+
+/**
+ * Get the configured content mode; preview mode needs a Preview API key and falls back to the
+ * published content without one
+ */
+export function getContentMode(config: AppConfig = appConfig): ContentMode {
+  return config.contentMode === "preview" && config.previewApiKey ? "preview" : "published";
+}
+
+/**
+ * Parse a content mode, falling back to "published" for unknown values
+ */
+export function parseContentMode(value: string): ContentMode {
+  return value.trim() === "preview" ? "preview" : "published";
+}
+
+/**
+ * Parse a scan mode, falling back to "per-type" for unknown values
+ */
+export function parseScanMode(value: string): ScanMode {
+  const mode = value.trim();
+  return mode === "cross-type" || mode === "hierarchical" ? mode : "per-type";
+}
+
+/**
+ * Get the linked-items element that builds the page hierarchy (only used in "hierarchical" mode)
+ */
+export function getHierarchyElement(config: AppConfig = appConfig): string | undefined {
+  return getScanMode(config) === "hierarchical" && config.hierarchyElement
+    ? config.hierarchyElement
+    : undefined;
+}
+
+/**
+ * Parse how the hierarchy element links pages, defaulting to "subpages"
+ */
+export function parseHierarchyRelation(value: string): HierarchyRelation {
+  return value.trim() === "parent" ? "parent" : "subpages";
+}
+
+/**
+ * Get the route prefix of a content type (empty when routed under the root)
+ */
+export function getRoutePrefix(type: string, config: AppConfig = appConfig): string {
+  return config.routePrefixes?.[type] || "";
+}
+
+/**
+ * Parse route prefixes in the form "article:/blog/,product_detail:/products/"
+ */
+export function parseRoutePrefixes(value: string): Record<string, string> {
+  const prefixes: Record<string, string> = {};
+
+  for (const entry of value.split(",")) {
+    const separator = entry.indexOf(":");
+    const type = entry.slice(0, separator).trim();
+    const prefix = entry.slice(separator + 1).trim();
+    if (separator < 0 || !type) continue;
+
+    prefixes[type] = prefix;
+  }
+
+  return prefixes;
+}
+
+/**
+ * Format route prefixes back to their "type:prefix" comma-separated form
+ */
+export function formatRoutePrefixes(prefixes: Record<string, string>): string {
+  return Object.entries(prefixes)
+    .filter(([, prefix]) => prefix)
+    .map(([type, prefix]) => `${type}:${prefix}`)
+    .join(",");
+}
+
+/**
+ * Get the URL pattern of a language: its own, the "*" pattern, or "/{slug}"
+ */
+export function getUrlPattern(language: string | undefined, config: AppConfig = appConfig): string {
+  const patterns = config.urlPatterns || {};
+  return (language && patterns[language]) || patterns["*"] || DEFAULT_URL_PATTERN;
+}
+
+/**
+ * Build the URL path of a slug in a language from its URL pattern
+ */
+export function buildSlugUrl(
+  slug: string,
+  language: string | undefined,
+  config: AppConfig = appConfig,
+): string {
+  return getUrlPattern(language, config)
+    .replace("{language}", language || "")
+    .replace("{slug}", slug.trim().replace(/^\/+|\/+$/g, ""));
+}
+
+/**
+ * Parse URL patterns in the form "de:/de/{slug},*:/{slug}"
+ */
+export function parseUrlPatterns(value: string): Record<string, string> {
+  const patterns = parseRoutePrefixes(value);
+  for (const [language, pattern] of Object.entries(patterns)) {
+    if (!pattern.includes("{slug}")) {
+      console.warn(`⚠️ URL pattern "${pattern}" of ${language} has no {slug} placeholder, ignoring it`);
+      delete patterns[language];
+    }
+  }
+
+  return patterns;
+}
+
+/**
+ * Format URL patterns back to their "language:pattern" comma-separated form
+ */
+export function formatUrlPatterns(patterns: Record<string, string>): string {
+  return formatRoutePrefixes(patterns);
+}
+
+/**
+ * Get the normalization rules applied before comparing slugs
+ */
+export function getNormalizationRules(config: AppConfig = appConfig): NormalizationRule[] {
+  return config.normalization || DEFAULT_NORMALIZATION;
+}
+
+/**
+ * Parse a comma-separated list of normalization rules ("none" disables normalization)
+ */
+export function parseNormalizationRules(value: string): NormalizationRule[] {
+  const rules = value.split(",").map((rule) => rule.trim());
+  const unknown = rules.filter((rule) => rule && rule !== "none" && !isNormalizationRule(rule));
+  if (unknown.length > 0) {
+    console.warn(`⚠️ Ignoring unknown slug normalization rules: ${unknown.join(", ")}`);
+  }
+
+  return rules.filter(isNormalizationRule);
+}
+
+/**
+ * Get the similarity threshold for near-duplicate slugs (0 disables the analysis)
+ */
+export function getSimilarityThreshold(config: AppConfig = appConfig): number {
+  return config.similarityThreshold ?? DEFAULT_SIMILARITY_THRESHOLD;
+}
+
+/**
+ * Parse a similarity threshold, clamped to the 0-1 range
+ */
+export function parseSimilarityThreshold(value: string): number {
+  const threshold = Number.parseFloat(value);
+  if (Number.isNaN(threshold)) {
+    console.warn(`⚠️ Invalid similarity threshold "${value}", using ${DEFAULT_SIMILARITY_THRESHOLD}`);
+    return DEFAULT_SIMILARITY_THRESHOLD;
+  }
+
+  return Math.min(Math.max(threshold, 0), 1);
+}
+
+/**
+ * Get the maximum number of API requests running at the same time
+ */
+export function getRequestConcurrency(config: AppConfig = appConfig): number {
+  return config.concurrency ?? DEFAULT_CONCURRENCY;
+}
+
+/**
+ * Parse a request concurrency, at least 1
+ */
+export function parseConcurrency(value: string): number {
+  const concurrency = Number.parseInt(value, 10);
+  if (Number.isNaN(concurrency) || concurrency < 1) {
+    console.warn(`⚠️ Invalid concurrency "${value}", using ${DEFAULT_CONCURRENCY}`);
+    return DEFAULT_CONCURRENCY;
+  }
+
+  return concurrency;
+}
+
+/**
+ * Get the filters scans run with (empty when the whole content is scanned)
+ */
+export function getScanFilters(config: AppConfig = appConfig): ScanFilters {
+  return config.filters || {};
+}
+
+/**
+ * Get how collections share URL space; each collection has its own by default
+ */
+export function getCollectionScope(config: AppConfig = appConfig): CollectionScope {
+  return config.collectionScope || "per-collection";
+}
+
+/**
+ * Parse a collection scope, falling back to "per-collection" for unknown values
+ */
+export function parseCollectionScope(value: string): CollectionScope {
+  return value.trim() === "cross-collection" ? "cross-collection" : "per-collection";
+}
+
+/**
+ * Get which languages share URL space; all of them by default
+ */
+export function getUniquenessScope(config: AppConfig = appConfig): UniquenessScope {
+  return config.uniquenessScope || "global";
+}
+
+/**
+ * Parse a uniqueness scope, falling back to "global" for unknown values
+ */
+export function parseUniquenessScope(value: string): UniquenessScope {
+  const scope = value.trim();
+  if (scope === "global" || scope === "per-language" || scope === "language-groups") {
+    return scope;
+  }
+
+  console.warn(`⚠️ Invalid uniqueness scope "${value}", using "global"`);
+  return "global";
+}
+
+/**
+ * Parse language groups in the form "en,en-gb;de,de-at"
+ */
+export function parseLanguageGroups(value: string): string[][] {
+  return value
+    .split(";")
+    .map(parseList)
+    .filter((group) => group.length > 0);
+}
+
+/**
+ * Format language groups back to their "en,en-gb;de,de-at" form
+ */
+export function formatLanguageGroups(groups: string[][]): string {
+  return groups.map((group) => group.join(",")).join(";");
+}
+
+/**
+ * Get the URL space a language's slugs live in: undefined in "global" scope, the language in
+ * "per-language" scope and its group (e.g. "en+en-gb") in "language-groups" scope
+ */
+export function getLanguageSpace(
+  language: string,
+  config: AppConfig = appConfig,
+): string | undefined {
+  const scope = getUniquenessScope(config);
+  if (scope === "global") return undefined;
+
+  const group =
+    scope === "language-groups"
+      ? (config.languageGroups || []).find((languages) => languages.includes(language))
+      : undefined;
+  return group ? group.join("+") : language;
+}
+
+/**
+ * Check whether items served through language fallbacks take part in the duplicate check
+ */
+export function getIncludeFallbacks(config: AppConfig = appConfig): boolean {
+  return config.includeFallbacks ?? false;
+}
+
+/**
+ * Describe a uniqueness scope for reports, e.g. "language groups: en+en-gb, de+de-at"
+ */
+export function describeUniquenessScope(scope: UniquenessScope, groups: string[][] = []): string {
+  if (scope === "per-language") return "per language";
+  if (scope === "language-groups") {
+    return `language groups: ${groups.map((group) => group.join("+")).join(", ") || "none"}`;
+  }
+  return "global (all languages share one URL space)";
+}
+
+/**
+ * Parse a comma-separated list of codenames
+ */
+export function parseList(value: string): string[] {
+  return value
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter((entry) => entry);
+}
+
+/**
+ * Parse a taxonomy filter in the form "category:news|events"
+ */
+export function parseTaxonomyFilter(value: string): TaxonomyFilter | undefined {
+  const separator = value.indexOf(":");
+  const element = value.slice(0, separator).trim();
+  const terms = value
+    .slice(separator + 1)
+    .split("|")
+    .map((term) => term.trim())
+    .filter((term) => term);
+  if (separator < 0 || !element || terms.length === 0) {
+    if (value.trim()) {
+      console.warn(`⚠️ Invalid taxonomy filter "${value}", expected "element:term|term"`);
+    }
+    return undefined;
+  }
+
+  return { element, terms };
+}
+
+/**
+ * Format a taxonomy filter back to its "element:term|term" form
+ */
+export function formatTaxonomyFilter(filter: TaxonomyFilter | undefined): string {
+  return filter ? `${filter.element}:${filter.terms.join("|")}` : "";
+}
+
+/**
+ * Parse a date of the last-modified window to ISO 8601 (undefined when empty or invalid)
+ */
+export function parseFilterDate(value: string): string | undefined {
+  if (!value.trim()) return undefined;
+
+  const date = new Date(value.trim());
+  if (Number.isNaN(date.getTime())) {
+    console.warn(`⚠️ Invalid date "${value}", ignoring it`);
+    return undefined;
+  }
+
+  return date.toISOString();
+}
+
+/**
+ * Get the rules of slugs editors must not use: the reserved slugs (as exact rules) followed by
+ * the forbidden patterns
+ */
+export function getSlugPatternRules(config: AppConfig = appConfig): SlugPatternRule[] {
+  return [
+    ...(config.reservedSlugs || []).map((pattern): SlugPatternRule => ({ match: "exact", pattern })),
+    ...(config.forbiddenSlugPatterns || []),
+  ];
+}
+
+/**
+ * Parse forbidden slug patterns separated by newlines or semicolons, e.g.
+ * "prefix:wp-;regex:^\d+$"; a pattern without a known kind is an exact slug
+ */
+export function parseSlugPatternRules(value: string): SlugPatternRule[] {
+  return value
+    .split(/[\n;]/)
+    .map((entry) => entry.trim())
+    .filter((entry) => entry)
+    .map((entry) => {
+      const separator = entry.indexOf(":");
+      const match = entry.slice(0, separator).trim();
+      return match === "exact" || match === "prefix" || match === "regex"
+        ? { match, pattern: entry.slice(separator + 1).trim() }
+        : { match: "exact", pattern: entry };
+    });
+}
+
+/**
+ * Format forbidden slug patterns back to their "kind:pattern" form, one per line
+ */
+export function formatSlugPatternRules(rules: SlugPatternRule[]): string {
+  return rules.map((rule) => `${rule.match}:${rule.pattern}`).join("\n");
+}
+
+/**
+ * Parse lint rule settings in the form "uppercase=error,underscore=off,max-length=100"
+ */
+export function parseSlugLintSettings(value: string): SlugLintSettings {
+  const settings: SlugLintSettings = {};
+
+  for (const entry of parseList(value)) {
+    const [rule, setting = ""] = entry.split("=").map((part) => part.trim());
+    const maxLength = Number.parseInt(setting, 10);
+    if (rule === "max-length" && maxLength > 0) {
+      settings.maxLength = maxLength;
+    } else if (isSlugLintRule(rule) && isLintSeverity(setting)) {
+      settings.severities = { ...settings.severities, [rule]: setting };
+    } else {
+      console.warn(`⚠️ Ignoring invalid slug lint setting "${entry}"`);
+    }
+  }
+
+  return settings;
+}
+
+/**
+ * Parse per-language lint settings in the form "zh:non-ascii=off;ja:non-ascii=off,max-length=40"
+ */
+export function parseSlugLintLanguages(value: string): Record<string, SlugLintSettings> {
+  const languages: Record<string, SlugLintSettings> = {};
+
+  for (const entry of value.split(";")) {
+    const separator = entry.indexOf(":");
+    const language = entry.slice(0, separator).trim();
+    if (separator < 0 || !language) continue;
+
+    languages[language] = parseSlugLintSettings(entry.slice(separator + 1));
+  }
+
+  return languages;
+}
+
+/**
+ * Format lint rule settings back to their "rule=severity" comma-separated form
+ */
+export function formatSlugLintSettings(settings: SlugLintSettings): string {
+  return [
+    ...Object.entries(settings.severities || {}).map(([rule, severity]) => `${rule}=${severity}`),
+    ...(settings.maxLength ? [`max-length=${settings.maxLength}`] : []),
+  ].join(",");
+}
+
+/**
+ * Format per-language lint settings back to their "language:settings" form
+ */
+export function formatSlugLintLanguages(languages: Record<string, SlugLintSettings>): string {
+  return Object.entries(languages)
+    .map(([language, settings]) => `${language}:${formatSlugLintSettings(settings)}`)
+    .join(";");
+}
+
 /**
  * Get environment variable from multiple sources
  */
@@ -107,6 +895,28 @@ declare global {
     readonly VITE_KONTENT_ENVIRONMENT_ID?: string;
     readonly VITE_KONTENT_LANGUAGES?: string;
     readonly VITE_KONTENT_DEFAULT_LANGUAGE?: string;
+    readonly VITE_KONTENT_DELIVERY_API_KEY?: string;
+    readonly VITE_KONTENT_MANAGEMENT_API_KEY?: string;
+    readonly VITE_KONTENT_PREVIEW_API_KEY?: string;
+    readonly VITE_KONTENT_CONTENT_MODE?: string;
+    readonly VITE_KONTENT_SLUG_ELEMENTS?: string;
+    readonly VITE_KONTENT_SCAN_MODE?: string;
+    readonly VITE_KONTENT_ROUTE_PREFIXES?: string;
+    readonly VITE_KONTENT_HIERARCHY_ELEMENT?: string;
+    readonly VITE_KONTENT_HIERARCHY_RELATION?: string;
+    readonly VITE_KONTENT_SLUG_NORMALIZATION?: string;
+    readonly VITE_KONTENT_SIMILARITY_THRESHOLD?: string;
+    readonly VITE_KONTENT_CONCURRENCY?: string;
+    readonly VITE_KONTENT_COLLECTIONS?: string;
+    readonly VITE_KONTENT_COLLECTION_SCOPE?: string;
+    readonly VITE_KONTENT_UNIQUENESS_SCOPE?: string;
+    readonly VITE_KONTENT_LANGUAGE_GROUPS?: string;
+    readonly VITE_KONTENT_INCLUDE_FALLBACKS?: string;
+    readonly VITE_KONTENT_URL_PATTERNS?: string;
+    readonly VITE_KONTENT_RESERVED_SLUGS?: string;
+    readonly VITE_KONTENT_FORBIDDEN_SLUG_PATTERNS?: string;
+    readonly VITE_KONTENT_SLUG_LINT?: string;
+    readonly VITE_KONTENT_SLUG_LINT_LANGUAGES?: string;
     // Allow other arbitrary variables without forcing any
     readonly [key: string]: string | undefined;
   }
@@ -116,8 +926,12 @@ declare global {
 }
 
 function getEnvVar(key: string): string {
-  // In Vite, only use import.meta.env (not process.env in the browser)
-  return import.meta.env?.[key] || "";
+  // In Vite, only use import.meta.env (not process.env in the browser); the CLI runs in Node
+  // where import.meta.env is undefined and variables come from process.env
+  if (import.meta.env) {
+    return import.meta.env[key] || "";
+  }
+  return typeof process !== "undefined" ? process.env[key] || "" : "";
 }
 
 /**
@@ -128,14 +942,30 @@ function logConfiguration(): void {
     environmentId: appConfig.environmentId || "❌ NOT SET",
     languages: appConfig.languages?.length ? appConfig.languages : ["Using default: " + appConfig.defaultLanguage],
     defaultLanguage: appConfig.defaultLanguage,
+    slugElements: formatSlugElementMapping(getSlugElementMapping()),
+    scanMode: getScanMode(),
+    routePrefixes: formatRoutePrefixes(appConfig.routePrefixes || {}),
+    hierarchy: getHierarchyElement()
+      ? `${appConfig.hierarchyElement} (${appConfig.hierarchyRelation})`
+      : "none",
+    normalization: getNormalizationRules(),
+    similarityThreshold: getSimilarityThreshold(),
+    contentMode: getContentMode(),
+    concurrency: getRequestConcurrency(),
+    filters: getScanFilters(),
+    collectionScope: getCollectionScope(),
+    uniquenessScope: describeUniquenessScope(getUniquenessScope(), appConfig.languageGroups),
+    includeFallbacks: getIncludeFallbacks(),
+    urlPatterns: formatUrlPatterns(appConfig.urlPatterns || {}) || DEFAULT_URL_PATTERN,
+    slugRules: getSlugPatternRules().length,
   });
 }
 
 /**
  * Check if required configuration is present
  */
-export function isConfigValid(): boolean {
-  return Boolean(appConfig.environmentId);
+export function isConfigValid(config: AppConfig = appConfig): boolean {
+  return Boolean(config.environmentId);
 }
 
 /**
@@ -143,8 +973,14 @@ export function isConfigValid(): boolean {
  */
 export function getConfigStatus(): {
   environmentId: string;
+  hasDeliveryApiKey: boolean;
+  hasManagementApiKey: boolean;
+  hasPreviewApiKey: boolean;
 } {
   return {
     environmentId: appConfig.environmentId,
+    hasDeliveryApiKey: Boolean(appConfig.deliveryApiKey),
+    hasManagementApiKey: Boolean(appConfig.managementApiKey),
+    hasPreviewApiKey: Boolean(appConfig.previewApiKey),
   };
 }
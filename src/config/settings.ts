@@ -0,0 +1,357 @@
+/**
+ * Settings store persisting scan settings per environment in browser storage, with import and
+ * export as JSON files. API keys are never stored.
+ */
+
+import { isNormalizationRule } from "../services/normalize";
+import { isLintSeverity, isSlugLintRule } from "../services/slug-lint";
+import type {
+  AppConfig,
+  CollectionScope,
+  ContentMode,
+  HierarchyRelation,
+  ScanFilters,
+  ScanMode,
+  SlugLintConfig,
+  SlugLintSettings,
+  SlugPatternRule,
+  UniquenessScope,
+} from "../types";
+
+const STORAGE_KEY_PREFIX = "kontent-duplicate-slugs-settings";
+const SETTINGS_FILE_VERSION = 1;
+
+// Configuration fields that can be persisted, imported and exported
+export const SETTINGS_KEYS = [
+  "languages",
+  "defaultLanguage",
+  "slugElements",
+  "scanMode",
+  "routePrefixes",
+  "hierarchyElement",
+  "hierarchyRelation",
+  "normalization",
+  "similarityThreshold",
+  "contentMode",
+  "filters",
+  "collectionScope",
+  "uniquenessScope",
+  "languageGroups",
+  "includeFallbacks",
+  "urlPatterns",
+  "reservedSlugs",
+  "forbiddenSlugPatterns",
+  "slugLint",
+] as const;
+
+export type SettingsKey = (typeof SETTINGS_KEYS)[number];
+
+export type StoredSettings = Partial<Pick<AppConfig, SettingsKey>>;
+
+// Where a setting came from, from the lowest to the highest precedence
+export type SettingsSource = "default" | "env" | "custom-app" | "browser";
+
+const SCAN_MODES: ScanMode[] = ["per-type", "cross-type", "hierarchical"];
+const HIERARCHY_RELATIONS: HierarchyRelation[] = ["parent", "subpages"];
+const CONTENT_MODES: ContentMode[] = ["published", "preview"];
+const COLLECTION_SCOPES: CollectionScope[] = ["per-collection", "cross-collection"];
+const UNIQUENESS_SCOPES: UniquenessScope[] = ["global", "per-language", "language-groups"];
+const SLUG_PATTERN_MATCHES: SlugPatternRule["match"][] = ["exact", "prefix", "regex"];
+
+/**
+ * Check that a value is a list of strings
+ */
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((entry) => typeof entry === "string");
+}
+
+/**
+ * Check that a value is a plain object whose values pass the given check
+ */
+function isRecordOf<T>(
+  value: unknown,
+  check: (entry: unknown) => entry is T,
+): value is Record<string, T> {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    !Array.isArray(value) &&
+    Object.values(value).every(check)
+  );
+}
+
+/**
+ * Check that a value is a forbidden slug pattern
+ */
+function isSlugPatternRule(value: unknown): value is SlugPatternRule {
+  const rule = value as SlugPatternRule | null;
+  return (
+    typeof rule === "object" &&
+    rule !== null &&
+    SLUG_PATTERN_MATCHES.includes(rule.match) &&
+    typeof rule.pattern === "string"
+  );
+}
+
+/**
+ * Keep only the valid lint severities and maximum length of an untrusted object
+ */
+function sanitizeSlugLintSettings(raw: unknown): SlugLintSettings {
+  if (typeof raw !== "object" || raw === null || Array.isArray(raw)) return {};
+
+  const value = raw as Record<string, unknown>;
+  const settings: SlugLintSettings = {};
+
+  if (typeof value.severities === "object" && value.severities !== null) {
+    settings.severities = Object.fromEntries(
+      Object.entries(value.severities).filter(
+        ([rule, severity]) => isSlugLintRule(rule) && isLintSeverity(severity),
+      ),
+    );
+  }
+  if (typeof value.maxLength === "number" && value.maxLength > 0) {
+    settings.maxLength = Math.floor(value.maxLength);
+  }
+
+  return settings;
+}
+
+/**
+ * Keep only the valid lint settings of an untrusted object, including the per-language ones
+ */
+function sanitizeSlugLint(raw: unknown): SlugLintConfig | undefined {
+  if (typeof raw !== "object" || raw === null || Array.isArray(raw)) return undefined;
+
+  const languages = (raw as { languages?: unknown }).languages;
+  return {
+    ...sanitizeSlugLintSettings(raw),
+    languages:
+      typeof languages === "object" && languages !== null
+        ? Object.fromEntries(
+            Object.entries(languages).map(([language, settings]) => [
+              language,
+              sanitizeSlugLintSettings(settings),
+            ]),
+          )
+        : undefined,
+  };
+}
+
+/**
+ * Keep only the valid scan filters of an untrusted object
+ */
+function sanitizeFilters(raw: unknown): ScanFilters | undefined {
+  if (typeof raw !== "object" || raw === null || Array.isArray(raw)) return undefined;
+
+  const value = raw as Record<string, unknown>;
+  const filters: ScanFilters = {};
+
+  if (isStringArray(value.collections)) {
+    filters.collections = value.collections;
+  }
+  if (isStringArray(value.workflowSteps)) {
+    filters.workflowSteps = value.workflowSteps;
+  }
+  const taxonomy = value.taxonomy as Record<string, unknown> | undefined;
+  if (typeof taxonomy?.element === "string" && isStringArray(taxonomy.terms)) {
+    filters.taxonomy = { element: taxonomy.element, terms: taxonomy.terms };
+  }
+  for (const key of ["modifiedAfter", "modifiedBefore"] as const) {
+    const date = value[key];
+    if (typeof date === "string" && !Number.isNaN(Date.parse(date))) {
+      filters[key] = date;
+    }
+  }
+
+  return filters;
+}
+
+/**
+ * Keep only the known and valid settings of an untrusted object (a stored value, an imported
+ * file or the custom app config)
+ */
+export function sanitizeSettings(raw: unknown): StoredSettings {
+  if (typeof raw !== "object" || raw === null) return {};
+
+  const value = raw as Record<string, unknown>;
+  const settings: StoredSettings = {};
+
+  if (isStringArray(value.languages)) {
+    settings.languages = value.languages.map((lang) => lang.trim()).filter((lang) => lang);
+  }
+  if (typeof value.defaultLanguage === "string" && value.defaultLanguage.trim()) {
+    settings.defaultLanguage = value.defaultLanguage.trim();
+  }
+  if (isRecordOf(value.slugElements, isStringArray) && Object.keys(value.slugElements).length) {
+    settings.slugElements = value.slugElements;
+  }
+  if (SCAN_MODES.includes(value.scanMode as ScanMode)) {
+    settings.scanMode = value.scanMode as ScanMode;
+  }
+  if (isRecordOf(value.routePrefixes, (entry): entry is string => typeof entry === "string")) {
+    settings.routePrefixes = value.routePrefixes;
+  }
+  if (typeof value.hierarchyElement === "string") {
+    settings.hierarchyElement = value.hierarchyElement.trim();
+  }
+  if (HIERARCHY_RELATIONS.includes(value.hierarchyRelation as HierarchyRelation)) {
+    settings.hierarchyRelation = value.hierarchyRelation as HierarchyRelation;
+  }
+  if (isStringArray(value.normalization)) {
+    settings.normalization = value.normalization.filter(isNormalizationRule);
+  }
+  if (
+    typeof value.similarityThreshold === "number" &&
+    value.similarityThreshold >= 0 &&
+    value.similarityThreshold <= 1
+  ) {
+    settings.similarityThreshold = value.similarityThreshold;
+  }
+  if (CONTENT_MODES.includes(value.contentMode as ContentMode)) {
+    settings.contentMode = value.contentMode as ContentMode;
+  }
+  const filters = sanitizeFilters(value.filters);
+  if (filters) {
+    settings.filters = filters;
+  }
+  if (COLLECTION_SCOPES.includes(value.collectionScope as CollectionScope)) {
+    settings.collectionScope = value.collectionScope as CollectionScope;
+  }
+  if (UNIQUENESS_SCOPES.includes(value.uniquenessScope as UniquenessScope)) {
+    settings.uniquenessScope = value.uniquenessScope as UniquenessScope;
+  }
+  if (Array.isArray(value.languageGroups)) {
+    settings.languageGroups = value.languageGroups.filter(isStringArray);
+  }
+  if (typeof value.includeFallbacks === "boolean") {
+    settings.includeFallbacks = value.includeFallbacks;
+  }
+  if (isRecordOf(value.urlPatterns, (entry): entry is string => typeof entry === "string")) {
+    settings.urlPatterns = value.urlPatterns;
+  }
+  if (isStringArray(value.reservedSlugs)) {
+    settings.reservedSlugs = value.reservedSlugs;
+  }
+  if (Array.isArray(value.forbiddenSlugPatterns)) {
+    settings.forbiddenSlugPatterns = value.forbiddenSlugPatterns.filter(isSlugPatternRule);
+  }
+  const slugLint = sanitizeSlugLint(value.slugLint);
+  if (slugLint) {
+    settings.slugLint = slugLint;
+  }
+
+  return settings;
+}
+
+/**
+ * Pick the persistable settings of a configuration
+ */
+export function pickSettings(config: AppConfig, keys: readonly SettingsKey[] = SETTINGS_KEYS) {
+  return sanitizeSettings(Object.fromEntries(keys.map((key) => [key, config[key]])));
+}
+
+/**
+ * Storage key of the settings of an environment
+ */
+function storageKey(environmentId: string): string {
+  return `${STORAGE_KEY_PREFIX}:${environmentId || "default"}`;
+}
+
+/**
+ * Browser storage, unavailable in the CLI and in sandboxed frames without storage access
+ */
+function getStorage(): Storage | null {
+  try {
+    return typeof localStorage === "undefined" ? null : localStorage;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Load the settings saved in the browser for an environment
+ */
+export function loadStoredSettings(environmentId: string): StoredSettings {
+  const stored = getStorage()?.getItem(storageKey(environmentId));
+  if (!stored) return {};
+
+  try {
+    return sanitizeSettings(JSON.parse(stored));
+  } catch (error) {
+    console.warn("⚠️ Ignoring unreadable saved settings:", error);
+    return {};
+  }
+}
+
+/**
+ * Save settings in the browser for an environment, on top of the ones saved before
+ */
+export function saveStoredSettings(environmentId: string, settings: StoredSettings): void {
+  const storage = getStorage();
+  if (!storage) return;
+
+  const merged = { ...loadStoredSettings(environmentId), ...settings };
+  storage.setItem(storageKey(environmentId), JSON.stringify(merged));
+  console.log(`💾 Saved settings for environment ${environmentId || "default"}:`, merged);
+}
+
+/**
+ * Remove saved settings of an environment (all of them by default)
+ */
+export function clearStoredSettings(
+  environmentId: string,
+  keys: readonly SettingsKey[] = SETTINGS_KEYS,
+): void {
+  const storage = getStorage();
+  if (!storage) return;
+
+  const remaining: StoredSettings = { ...loadStoredSettings(environmentId) };
+  for (const key of keys) {
+    delete remaining[key];
+  }
+
+  if (Object.keys(remaining).length === 0) {
+    storage.removeItem(storageKey(environmentId));
+  } else {
+    storage.setItem(storageKey(environmentId), JSON.stringify(remaining));
+  }
+}
+
+/**
+ * Serialize settings to a JSON settings file
+ */
+export function serializeSettings(environmentId: string, settings: StoredSettings): string {
+  return JSON.stringify(
+    {
+      version: SETTINGS_FILE_VERSION,
+      environmentId,
+      exportedAt: new Date().toISOString(),
+      settings,
+    },
+    null,
+    2,
+  );
+}
+
+/**
+ * Parse a JSON settings file; a plain settings object (as in the custom app config) works too
+ */
+export function parseSettingsFile(text: string): StoredSettings {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error("Settings file is not valid JSON");
+  }
+
+  const raw =
+    typeof parsed === "object" && parsed !== null && "settings" in parsed
+      ? (parsed as { settings: unknown }).settings
+      : parsed;
+  const settings = sanitizeSettings(raw);
+  if (Object.keys(settings).length === 0) {
+    throw new Error("Settings file contains no known settings");
+  }
+
+  return settings;
+}
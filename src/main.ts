@@ -11,10 +11,87 @@ import {
   renderDuplicateResults,
   renderSearchResults,
   renderLanguageConfiguration,
+  renderSlugElementConfiguration,
+  renderSimilarSlugResults,
+  renderExportActions,
+  renderFixResults,
+  renderResolutionPanel,
+  renderUndoAction,
+  renderUnknownLanguagesWarning,
+  renderIndexStatus,
+  renderScanProgress,
+  describeScanProgress,
+  renderPreviewComparison,
+  renderRedirectPanel,
+  renderRedirectMap,
+  renderReconciliationPanel,
+  renderUrlReconciliation,
 } from "./components/ui";
 // Import modules
-import { initializeConfig, appConfig, setUserConfiguredLanguages, hasUserConfiguredLanguages } from "./config";
-import { findDuplicateSlugs, searchSpecificSlug } from "./services/search";
+import {
+  initializeConfig,
+  appConfig,
+  getConfiguredLanguages,
+  setUserConfiguredLanguages,
+  hasUserConfiguredLanguages,
+  setUserConfiguredSlugElements,
+  parseSlugElementMapping,
+  parseRoutePrefixes,
+  parseScanMode,
+  parseHierarchyRelation,
+  parseSimilarityThreshold,
+  DEFAULT_NORMALIZATION,
+  DEFAULT_SIMILARITY_THRESHOLD,
+  DEFAULT_SLUG_ELEMENTS,
+  LANGUAGE_SETTINGS,
+  SETTINGS_KEYS,
+  persistSettings,
+  forgetSettings,
+  resetSettings,
+  exportSettings,
+  importSettings,
+  getContentMode,
+  parseContentMode,
+  parseCollectionScope,
+  parseUniquenessScope,
+  parseLanguageGroups,
+  parseFilterDate,
+  parseList,
+  parseTaxonomyFilter,
+  parseSlugPatternRules,
+  parseSlugLintLanguages,
+  parseUrlPatterns,
+} from "./config";
+import {
+  createExportFileName,
+  downloadFile,
+  exportDuplicateResult,
+  exportPreviewComparison,
+  exportSearchResult,
+  exportUrlReconciliation,
+} from "./services/export";
+import { findUnknownLanguages } from "./services/languages";
+import { isNormalizationRule } from "./services/normalize";
+import {
+  buildRedirectMap,
+  changesFromUndoLog,
+  formatRedirectMap,
+  parseSlugChanges,
+  redirectFileName,
+} from "./services/redirects";
+import { applySlugFixes, planSlugFixes, undoSlugFixes } from "./services/resolution";
+import { createScanner } from "./services/scanner";
+import { fetchText, loadUrlList, reconcileUrls } from "./services/sitemap";
+import { createBrowserIndexStore } from "./services/slug-index";
+import type {
+  DuplicateResult,
+  EnvironmentLanguage,
+  ExportFormat,
+  RedirectFormat,
+  ScanOptions,
+  UndoLogEntry,
+} from "./types";
+import { escapeHtml } from "./utils";
 
 // =====================================================================
 // Application State
@@ -27,8 +104,37 @@ let slugInput: HTMLInputElement;
 let searchBtn: HTMLElement;
 let executeSearchBtn: HTMLElement;
 let findBtn: HTMLElement;
+let compareBtn: HTMLElement;
+let redirectsBtn: HTMLElement;
+let reconcileBtn: HTMLElement;
 let searchSection: HTMLElement;
 
+// Slug changes of the last applied resolution, kept across reloads so they can be reverted
+const UNDO_LOG_STORAGE_KEY = "kontent-duplicate-slugs-undo-log";
+
+// All slug changes applied in the app and not reverted, the source of generated redirects
+const CHANGE_LOG_STORAGE_KEY = "kontent-duplicate-slugs-change-log";
+
+/**
+ * Storage key of a log of the current environment, so changes are never offered in another one
+ */
+function logStorageKey(key: string): string {
+  return `${key}:${appConfig.environmentId || "default"}`;
+}
+
+// Result of the last duplicate scan, whose live slugs generated redirects are checked against
+let lastDuplicateResult: DuplicateResult | null = null;
+
+// Languages of the environment, fetched once per environment ID
+let environmentLanguages: { environmentId: string; languages: EnvironmentLanguage[] } | null =
+  null;
+
+// Local slug index, so repeated duplicate scans only fetch the items changed in between
+const slugIndex = typeof indexedDB === "undefined" ? undefined : createBrowserIndexStore();
+
+// Settings edited on the content types & slug elements screen
+const SCAN_SETTINGS = SETTINGS_KEYS.filter((key) => !LANGUAGE_SETTINGS.includes(key));
+
 function mustGet<T extends HTMLElement>(id: string): T {
   const el = document.getElementById(id);
   if (!el) {
@@ -67,6 +173,9 @@ function setupUI(): void {
   searchBtn = mustGet<HTMLElement>("search-btn");
   executeSearchBtn = mustGet<HTMLElement>("execute-search-btn");
   findBtn = mustGet<HTMLElement>("find-btn");
+  compareBtn = mustGet<HTMLElement>("compare-btn");
+  redirectsBtn = mustGet<HTMLElement>("redirects-btn");
+  reconcileBtn = mustGet<HTMLElement>("reconcile-btn");
   searchSection = mustGet<HTMLElement>("search-section");
 }
 
@@ -99,7 +208,10 @@ function setupEventListeners(): void {
     }
   });
 
-  findBtn.addEventListener("click", handleFindDuplicatesClick);
+  findBtn.addEventListener("click", () => handleFindDuplicatesClick());
+  compareBtn.addEventListener("click", handleCompareClick);
+  redirectsBtn.addEventListener("click", handleRedirectsClick);
+  reconcileBtn.addEventListener("click", handleReconcileClick);
 }
 
 // =====================================================================
@@ -119,10 +231,11 @@ async function handleConfigClick(): Promise<void> {
     if (!hasUserConfiguredLanguages()) {
       await initializeConfig();
     }
-    resultDiv.innerHTML = renderConfiguration();
+    resultDiv.innerHTML = renderConfiguration(await findUnknownConfiguredLanguages());
     
     // Setup event listener for the integrated configure languages button
     setupIntegratedLanguageConfigListener();
+    setupSettingsListeners();
   } catch (error) {
     console.error("Error loading configuration:", error);
     resultDiv.innerHTML = `<p style="color:red;">Error loading configuration: ${error}</p>`;
@@ -139,9 +252,20 @@ async function handleSlugSearchClick(): Promise<void> {
     return;
   }
   try {
+    if (!(await checkLanguagesBeforeScan())) return;
     resultDiv.innerHTML = `Searching for slug: <code>${value}</code> ...`;
-    const result = await searchSpecificSlug(value);
+    const result = await createScanner(appConfig).searchSpecificSlug(value);
     resultDiv.innerHTML = renderSearchResults(result, value);
+    if (!result.error) {
+      resultDiv.insertAdjacentHTML("afterbegin", renderExportActions());
+      setupExportListeners((format) =>
+        downloadFile(
+          createExportFileName(appConfig, "slug-search", format),
+          exportSearchResult(appConfig, result, value, format),
+          format,
+        ),
+      );
+    }
   } catch (error) {
     console.error("Error during slug search:", error);
     resultDiv.innerHTML = `<p style="color:red;">Error during slug search: ${error}</p>`;
@@ -151,59 +275,706 @@ async function handleSlugSearchClick(): Promise<void> {
 /**
  * Handle find duplicates button click
  */
-async function handleFindDuplicatesClick(): Promise<void> {
+async function handleFindDuplicatesClick(rebuildIndex = false): Promise<void> {
   try {
     // Hide search section when finding duplicates
     searchSection.style.display = "none";
 
-    resultDiv.innerHTML = "Searching for duplicate slugs...";
+    if (!(await checkLanguagesBeforeScan())) return;
+    resultDiv.innerHTML = renderScanProgress();
 
-    const result = await findDuplicateSlugs();
-    resultDiv.innerHTML = renderDuplicateResults(result);
+    const scanner = createScanner(appConfig, { slugIndex });
+    if (rebuildIndex) {
+      await scanner.clearIndex();
+    }
+    const result = await scanner.findDuplicateSlugs(undefined, trackScanProgress());
+    resultDiv.innerHTML = renderDuplicateResults(result) + renderSimilarSlugResults(result);
+    if (!result.error) {
+      lastDuplicateResult = result;
+      resultDiv.insertAdjacentHTML("afterbegin", renderExportActions());
+      setupExportListeners((format) =>
+        downloadFile(
+          createExportFileName(appConfig, "duplicate-slugs", format),
+          exportDuplicateResult(appConfig, result, format),
+          format,
+        ),
+      );
+      setupResolutionListeners(result);
+    }
+    if (result.index) {
+      resultDiv.insertAdjacentHTML("afterbegin", renderIndexStatus(result.index));
+      document
+        .getElementById("rebuild-index-btn")
+        ?.addEventListener("click", () => handleFindDuplicatesClick(true));
+    }
+    resultDiv.insertAdjacentHTML("afterbegin", renderUndoAction(loadUndoLog().length));
+    setupUndoListener();
   } catch (error) {
     console.error("Error finding duplicates:", error);
     resultDiv.innerHTML = `<p style="color:red;">Error finding duplicates: ${error}</p>`;
   }
 }
 
+/**
+ * Handle compare button click: scan the published and the latest versions and show the
+ * collisions pending changes would introduce
+ */
+async function handleCompareClick(): Promise<void> {
+  try {
+    searchSection.style.display = "none";
+
+    if (!appConfig.previewApiKey) {
+      resultDiv.innerHTML =
+        '<p style="color:#b45309;">Enter a Preview API key under "Show Config" → Content Mode to compare published and preview content.</p>';
+      return;
+    }
+    if (!(await checkLanguagesBeforeScan())) return;
+    resultDiv.innerHTML = renderScanProgress();
+
+    const comparison = await createScanner(appConfig, { slugIndex }).comparePreview(
+      undefined,
+      trackScanProgress(),
+    );
+    resultDiv.innerHTML = renderPreviewComparison(comparison);
+    if (!comparison.error) {
+      resultDiv.insertAdjacentHTML("afterbegin", renderExportActions());
+      setupExportListeners((format) =>
+        downloadFile(
+          createExportFileName(appConfig, "preview-comparison", format),
+          exportPreviewComparison(appConfig, comparison, format),
+          format,
+        ),
+      );
+    }
+  } catch (error) {
+    console.error("Error comparing published and preview content:", error);
+    resultDiv.innerHTML = `<p style="color:red;">Error comparing published and preview content: ${error}</p>`;
+  }
+}
+
+/**
+ * Handle redirects button click: show the form generating redirects for changed slugs
+ */
+function handleRedirectsClick(): void {
+  searchSection.style.display = "none";
+  resultDiv.innerHTML = renderRedirectPanel(
+    loadChangeLog().length,
+    lastDuplicateResult?.liveSlugs?.length || 0,
+  );
+  document.getElementById("generate-redirects-btn")?.addEventListener("click", handleGenerateRedirects);
+}
+
+/**
+ * Build the redirects from the selected slug changes and offer them for download
+ */
+async function handleGenerateRedirects(): Promise<void> {
+  const output = document.getElementById("redirect-output");
+  if (!output) return;
+
+  const useAppChanges = document.getElementById("redirect-use-app-changes") as HTMLInputElement | null;
+  const fileInput = document.getElementById("redirect-changes-file") as HTMLInputElement | null;
+  const textInput = document.getElementById("redirect-changes-text") as HTMLTextAreaElement | null;
+  const patternsInput = document.getElementById("url-patterns-input") as HTMLInputElement | null;
+
+  try {
+    const file = fileInput?.files?.[0];
+    const changes = [
+      ...(useAppChanges?.checked ? changesFromUndoLog(loadChangeLog()) : []),
+      ...(file ? parseSlugChanges(await file.text()) : []),
+      ...parseSlugChanges(textInput?.value || ""),
+    ];
+    if (changes.length === 0) {
+      output.innerHTML = '<p style="color:#b45309;">No slug changes selected, uploaded or pasted.</p>';
+      return;
+    }
+
+    appConfig.urlPatterns = parseUrlPatterns(patternsInput?.value || "");
+    persistSettings(["urlPatterns"]);
+
+    const map = buildRedirectMap(changes, appConfig, lastDuplicateResult?.liveSlugs);
+    output.innerHTML = renderRedirectMap(map);
+    for (const button of Array.from(output.querySelectorAll<HTMLElement>(".redirect-download-btn"))) {
+      button.addEventListener("click", () => {
+        const format = button.dataset.format as RedirectFormat;
+        downloadFile(redirectFileName(format), formatRedirectMap(map, format), format);
+        console.log(`📥 Downloaded redirects for ${format}`);
+      });
+    }
+  } catch (error) {
+    console.error("Error generating redirects:", error);
+    output.innerHTML = `<p style="color:red;">Error generating redirects: ${escapeHtml(String(error))}</p>`;
+  }
+}
+
+/**
+ * Handle reconcile button click: show the form reconciling live URLs with the scanned slugs
+ */
+function handleReconcileClick(): void {
+  searchSection.style.display = "none";
+  resultDiv.innerHTML = renderReconciliationPanel();
+  document.getElementById("run-reconcile-btn")?.addEventListener("click", handleRunReconcile);
+}
+
+/**
+ * Load the live URLs, scan the slugs and show which URLs and items have no counterpart; the
+ * report replaces the form
+ */
+async function handleRunReconcile(): Promise<void> {
+  const output = document.getElementById("reconcile-output");
+  if (!output) return;
+
+  const fileInput = document.getElementById("reconcile-file") as HTMLInputElement | null;
+  const urlInput = document.getElementById("reconcile-url-input") as HTMLInputElement | null;
+  const textInput = document.getElementById("reconcile-text") as HTMLTextAreaElement | null;
+  const patternsInput = document.getElementById("url-patterns-input") as HTMLInputElement | null;
+
+  try {
+    const file = fileInput?.files?.[0];
+    const sitemapUrl = urlInput?.value.trim();
+    const text = file
+      ? await file.text()
+      : sitemapUrl
+        ? await fetchText(sitemapUrl)
+        : textInput?.value || "";
+    const list = await loadUrlList(text);
+    if (list.urls.length === 0) {
+      output.innerHTML = `<p style="color:#b45309;">No URLs found.${list.warnings.map((warning) => `<br>${escapeHtml(warning)}`).join("")}</p>`;
+      return;
+    }
+
+    appConfig.urlPatterns = parseUrlPatterns(patternsInput?.value || "");
+    persistSettings(["urlPatterns"]);
+
+    if (!(await checkLanguagesBeforeScan())) return;
+    resultDiv.innerHTML = renderScanProgress();
+    const result = await createScanner(appConfig, { slugIndex }).findDuplicateSlugs(
+      undefined,
+      trackScanProgress(),
+    );
+    if (result.error) {
+      resultDiv.innerHTML = `<p style="color:red;">Error scanning slugs: ${result.error}</p>`;
+      return;
+    }
+    lastDuplicateResult = result;
+
+    const report = reconcileUrls(list, result, appConfig);
+    resultDiv.innerHTML = renderExportActions() + renderUrlReconciliation(report);
+    setupExportListeners((format) =>
+      downloadFile(
+        createExportFileName(appConfig, "url-reconciliation", format),
+        exportUrlReconciliation(appConfig, report, format),
+        format,
+      ),
+    );
+  } catch (error) {
+    console.error("Error reconciling URLs:", error);
+    resultDiv.innerHTML = `<p style="color:red;">Error reconciling URLs: ${escapeHtml(String(error))}</p>`;
+  }
+}
+
+/**
+ * Update the progress bar of the running scan and cancel the scan from its Cancel button
+ */
+function trackScanProgress(): ScanOptions {
+  const controller = new AbortController();
+  const startedAt = Date.now();
+  const cancelBtn = document.getElementById("cancel-scan-btn") as HTMLButtonElement | null;
+
+  cancelBtn?.addEventListener("click", () => {
+    cancelBtn.disabled = true;
+    cancelBtn.textContent = "Cancelling...";
+    controller.abort();
+  });
+
+  return {
+    signal: controller.signal,
+    onProgress: (progress) => {
+      const bar = document.getElementById("scan-progress-bar");
+      const text = document.getElementById("scan-progress-text");
+      if (bar) bar.style.width = `${Math.round(progress.fraction * 100)}%`;
+      if (text) text.textContent = describeScanProgress(progress, Date.now() - startedAt);
+    },
+  };
+}
+
+/**
+ * Fetch the languages of the environment, cached per environment (null when they could not be
+ * fetched, e.g. without network access)
+ */
+async function getEnvironmentLanguages(): Promise<EnvironmentLanguage[] | null> {
+  if (environmentLanguages?.environmentId === appConfig.environmentId) {
+    return environmentLanguages.languages;
+  }
+
+  try {
+    const languages = await createScanner(appConfig).fetchLanguages();
+    environmentLanguages = { environmentId: appConfig.environmentId, languages };
+    console.log(`🌐 Environment languages: ${languages.map((lang) => lang.codename).join(", ")}`);
+    return languages;
+  } catch (error) {
+    console.warn("⚠️ Could not fetch the environment languages:", error);
+    return null;
+  }
+}
+
+/**
+ * Find the configured languages that are not languages of the environment
+ */
+async function findUnknownConfiguredLanguages(): Promise<string[]> {
+  const languages = await getEnvironmentLanguages();
+  return languages ? findUnknownLanguages(getConfiguredLanguages(), languages) : [];
+}
+
+/**
+ * Stop a scan before it starts when a configured language does not exist, since it would
+ * silently find nothing in that language
+ */
+async function checkLanguagesBeforeScan(): Promise<boolean> {
+  resultDiv.innerHTML = "Checking configured languages...";
+  const unknownLanguages = await findUnknownConfiguredLanguages();
+  if (unknownLanguages.length === 0) return true;
+
+  resultDiv.innerHTML = renderUnknownLanguagesWarning(unknownLanguages);
+  return false;
+}
+
+/**
+ * Setup event listeners for the export buttons rendered with the current results
+ */
+function setupExportListeners(exportAs: (format: ExportFormat) => void): void {
+  for (const button of Array.from(document.querySelectorAll<HTMLButtonElement>(".export-btn"))) {
+    button.addEventListener("click", () => {
+      const format = button.dataset.format as ExportFormat;
+      exportAs(format);
+      console.log(`📥 Exported results as ${format}`);
+    });
+  }
+}
+
+/**
+ * Setup event listeners for resolving duplicates: open the form, then dry run or apply it
+ */
+function setupResolutionListeners(result: DuplicateResult): void {
+  for (const button of Array.from(document.querySelectorAll<HTMLButtonElement>(".resolve-btn"))) {
+    button.addEventListener("click", () => {
+      const index = Number(button.dataset.index);
+      const container = document.getElementById(`resolution-${index}`);
+      if (!container) return;
+
+      container.innerHTML = renderResolutionPanel(result.duplicates[index], index);
+      container
+        .querySelector(".dry-run-btn")
+        ?.addEventListener("click", () => handleResolveClick(result, index, true));
+      container
+        .querySelector(".apply-fixes-btn")
+        ?.addEventListener("click", () => handleResolveClick(result, index, false));
+    });
+  }
+}
+
+/**
+ * Plan the slug changes from the resolution form and run them (or their dry run)
+ */
+async function handleResolveClick(
+  result: DuplicateResult,
+  index: number,
+  dryRun: boolean,
+): Promise<void> {
+  const panel = document.querySelector<HTMLElement>(`.resolution-panel[data-index="${index}"]`);
+  const output = panel?.querySelector<HTMLElement>(".resolution-output");
+  if (!panel || !output) return;
+
+  const keeper = panel.querySelector<HTMLInputElement>(".keeper-radio:checked")?.value || "";
+  const replacements = Object.fromEntries(
+    Array.from(panel.querySelectorAll<HTMLInputElement>(".replacement-input")).map((input) => [
+      input.dataset.key || "",
+      input.value,
+    ]),
+  );
+  const { fixes, errors } = planSlugFixes(result.duplicates[index], keeper, replacements);
+
+  if (fixes.length === 0 || errors.length > 0) {
+    output.innerHTML = renderFixResults([], errors);
+    return;
+  }
+  if (
+    !dryRun &&
+    !confirm(`Write ${fixes.length} new slug(s) to Kontent.ai through the Management API?`)
+  ) {
+    return;
+  }
+
+  try {
+    output.innerHTML = dryRun ? "Checking variants..." : "Updating slugs...";
+    const { results, undoLog } = await applySlugFixes(appConfig, fixes, { dryRun });
+    output.innerHTML = renderFixResults(results);
+
+    if (undoLog.length > 0) {
+      saveUndoLog(undoLog);
+      saveChangeLog([...loadChangeLog(), ...undoLog]);
+      document.getElementById("undo-resolution-btn")?.closest(".export-actions")?.remove();
+      resultDiv.insertAdjacentHTML("afterbegin", renderUndoAction(undoLog.length));
+      setupUndoListener();
+    }
+  } catch (error) {
+    console.error("Error resolving duplicates:", error);
+    output.innerHTML = `<p style="color:red;">Error resolving duplicates: ${error}</p>`;
+  }
+}
+
+/**
+ * Setup event listener for reverting the last applied resolution
+ */
+function setupUndoListener(): void {
+  const undoBtn = document.getElementById("undo-resolution-btn");
+  undoBtn?.addEventListener("click", async () => {
+    const undoLog = loadUndoLog();
+    if (!confirm(`Revert ${undoLog.length} slug change(s)?`)) return;
+
+    const { results } = await undoSlugFixes(appConfig, undoLog);
+    // Keep the changes that could not be reverted, so the undo can be retried
+    const reverted = new Set(
+      results
+        .filter((r) => r.status === "updated")
+        .map((r) => `${r.fix.codename}|${r.fix.language}`),
+    );
+    saveUndoLog(undoLog.filter((entry) => !reverted.has(`${entry.codename}|${entry.language}`)));
+    // Reverted changes no longer need a redirect
+    const revertedEntries = new Set(
+      undoLog
+        .filter((entry) => reverted.has(`${entry.codename}|${entry.language}`))
+        .map((entry) => JSON.stringify(entry)),
+    );
+    saveChangeLog(loadChangeLog().filter((entry) => !revertedEntries.has(JSON.stringify(entry))));
+
+    undoBtn.closest(".export-actions")?.insertAdjacentHTML("afterend", renderFixResults(results));
+    undoBtn.closest(".export-actions")?.remove();
+  });
+}
+
+/**
+ * Load the undo log of the last applied resolution
+ */
+function loadUndoLog(): UndoLogEntry[] {
+  try {
+    return JSON.parse(
+      localStorage.getItem(logStorageKey(UNDO_LOG_STORAGE_KEY)) || "[]",
+    ) as UndoLogEntry[];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Persist the undo log of the last applied resolution
+ */
+function saveUndoLog(undoLog: UndoLogEntry[]): void {
+  localStorage.setItem(logStorageKey(UNDO_LOG_STORAGE_KEY), JSON.stringify(undoLog));
+}
+
+/**
+ * Load the slug changes applied in the app
+ */
+function loadChangeLog(): UndoLogEntry[] {
+  try {
+    return JSON.parse(
+      localStorage.getItem(logStorageKey(CHANGE_LOG_STORAGE_KEY)) || "[]",
+    ) as UndoLogEntry[];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Persist the slug changes applied in the app
+ */
+function saveChangeLog(changeLog: UndoLogEntry[]): void {
+  localStorage.setItem(logStorageKey(CHANGE_LOG_STORAGE_KEY), JSON.stringify(changeLog));
+}
+
+/**
+ * Setup event listeners for exporting, importing and forgetting the saved settings
+ */
+function setupSettingsListeners(): void {
+  const importInput = document.getElementById("import-settings-input") as HTMLInputElement | null;
+
+  document.getElementById("apply-content-mode-btn")?.addEventListener("click", async () => {
+    const modeSelect = document.getElementById("content-mode-select") as HTMLSelectElement | null;
+    const keyInput = document.getElementById("preview-api-key-input") as HTMLInputElement | null;
+
+    // The key stays in memory only; the mode is saved like the other scan settings
+    if (keyInput?.value.trim()) {
+      appConfig.previewApiKey = keyInput.value.trim();
+    }
+    appConfig.contentMode = parseContentMode(modeSelect?.value || "published");
+    persistSettings(["contentMode"]);
+    console.log(`🔭 Content mode: ${getContentMode()}`);
+    await handleConfigClick();
+  });
+
+  document.getElementById("apply-filters-btn")?.addEventListener("click", async () => {
+    const inputValue = (id: string) =>
+      (document.getElementById(id) as HTMLInputElement | HTMLSelectElement | null)?.value || "";
+
+    appConfig.filters = {
+      collections: parseList(inputValue("filter-collections-input")),
+      workflowSteps: parseList(inputValue("filter-workflow-steps-input")),
+      taxonomy: parseTaxonomyFilter(inputValue("filter-taxonomy-input")),
+      modifiedAfter: parseFilterDate(inputValue("filter-modified-after-input")),
+      modifiedBefore: parseFilterDate(inputValue("filter-modified-before-input")),
+    };
+    appConfig.collectionScope = parseCollectionScope(inputValue("collection-scope-select"));
+    persistSettings(["filters", "collectionScope"]);
+    console.log("🔎 Scan filters:", appConfig.filters, appConfig.collectionScope);
+    await handleConfigClick();
+  });
+
+  document.getElementById("apply-uniqueness-btn")?.addEventListener("click", async () => {
+    const scopeSelect = document.getElementById("uniqueness-scope-select") as HTMLSelectElement | null;
+    const groupsInput = document.getElementById("language-groups-input") as HTMLInputElement | null;
+    const fallbacksCheckbox = document.getElementById(
+      "include-fallbacks-checkbox",
+    ) as HTMLInputElement | null;
+
+    appConfig.uniquenessScope = parseUniquenessScope(scopeSelect?.value || "");
+    appConfig.languageGroups = parseLanguageGroups(groupsInput?.value || "");
+    appConfig.includeFallbacks = Boolean(fallbacksCheckbox?.checked);
+    persistSettings(["uniquenessScope", "languageGroups", "includeFallbacks"]);
+    console.log(
+      "🌐 Uniqueness scope:",
+      appConfig.uniquenessScope,
+      appConfig.languageGroups,
+      appConfig.includeFallbacks ? "(fallbacks included)" : "",
+    );
+    await handleConfigClick();
+  });
+
+  document.getElementById("apply-reserved-slugs-btn")?.addEventListener("click", async () => {
+    const reservedInput = document.getElementById("reserved-slugs-input") as HTMLInputElement | null;
+    const patternsInput = document.getElementById(
+      "forbidden-slug-patterns-input",
+    ) as HTMLTextAreaElement | null;
+
+    appConfig.reservedSlugs = parseList(reservedInput?.value || "");
+    appConfig.forbiddenSlugPatterns = parseSlugPatternRules(patternsInput?.value || "");
+    persistSettings(["reservedSlugs", "forbiddenSlugPatterns"]);
+    console.log("🚫 Reserved slugs:", appConfig.reservedSlugs, appConfig.forbiddenSlugPatterns);
+    await handleConfigClick();
+  });
+
+  document.getElementById("apply-slug-lint-btn")?.addEventListener("click", async () => {
+    const maxLengthInput = document.getElementById("lint-max-length-input") as HTMLInputElement | null;
+    const languagesInput = document.getElementById("lint-languages-input") as HTMLInputElement | null;
+    const severities = Object.fromEntries(
+      Array.from(document.querySelectorAll<HTMLSelectElement>(".lint-severity-select")).map(
+        (select) => [select.dataset.rule, select.value],
+      ),
+    );
+    const maxLength = Number.parseInt(maxLengthInput?.value || "", 10);
+
+    appConfig.slugLint = {
+      severities,
+      maxLength: maxLength > 0 ? maxLength : undefined,
+      languages: parseSlugLintLanguages(languagesInput?.value || ""),
+    };
+    persistSettings(["slugLint"]);
+    console.log("🩺 Slug lint settings:", appConfig.slugLint);
+    await handleConfigClick();
+  });
+
+  document.getElementById("clear-filters-btn")?.addEventListener("click", async () => {
+    appConfig.filters = {};
+    persistSettings(["filters"]);
+    console.log("🧹 Cleared scan filters");
+    await handleConfigClick();
+  });
+
+  document.getElementById("export-settings-btn")?.addEventListener("click", () => {
+    downloadFile(createExportFileName(appConfig, "settings", "json"), exportSettings(), "json");
+    console.log("📤 Exported settings");
+  });
+
+  document.getElementById("import-settings-btn")?.addEventListener("click", () => {
+    importInput?.click();
+  });
+
+  importInput?.addEventListener("change", async () => {
+    const file = importInput.files?.[0];
+    if (!file) return;
+
+    try {
+      const settings = importSettings(await file.text());
+      console.log("📥 Imported settings:", settings);
+      await handleConfigClick();
+    } catch (error) {
+      console.error("Error importing settings:", error);
+      resultDiv.insertAdjacentHTML(
+        "afterbegin",
+        `<p style="color:red;">Error importing settings: ${error instanceof Error ? error.message : error}</p>`,
+      );
+    }
+  });
+
+  document.getElementById("clear-settings-btn")?.addEventListener("click", async () => {
+    if (!confirm("Forget the settings saved in this browser for this environment?")) return;
+
+    resetSettings();
+    await initializeConfig();
+    await handleConfigClick();
+  });
+}
+
 /**
  * Setup event listener for the integrated language configuration button in Show Config
  */
 function setupIntegratedLanguageConfigListener(): void {
   const configureBtn = document.getElementById("configure-languages-btn");
-  configureBtn?.addEventListener("click", () => {
+  configureBtn?.addEventListener("click", async () => {
     // Show language configuration interface
-    resultDiv.innerHTML = renderLanguageConfiguration();
+    resultDiv.innerHTML = renderLanguageConfiguration(await getEnvironmentLanguages());
     setupLanguageConfigListeners();
   });
+
+  const configureSlugElementsBtn = document.getElementById("configure-slug-elements-btn");
+  configureSlugElementsBtn?.addEventListener("click", () => {
+    // Show content type and slug element configuration interface
+    resultDiv.innerHTML = renderSlugElementConfiguration();
+    setupSlugElementConfigListeners();
+  });
 }
 
 /**
- * Setup event listeners for language configuration interface
+ * Add a back button to return to the main config at the top of the config section
  */
-function setupLanguageConfigListeners(): void {
-  const applyBtn = document.getElementById("apply-languages-btn");
-  const resetBtn = document.getElementById("reset-languages-btn");
-  const languagesInput = document.getElementById("languages-input") as HTMLInputElement;
-  const defaultLangInput = document.getElementById("default-lang-input") as HTMLInputElement;
+function insertBackToConfigButton(): HTMLElement | null {
   const backToConfigBtn = document.createElement("button");
-  
-  // Add a back button to return to main config
   backToConfigBtn.textContent = "← Back to Config";
   backToConfigBtn.className = "button button-secondary";
   backToConfigBtn.style.cssText = "margin-bottom: 15px;";
   backToConfigBtn.addEventListener("click", async () => {
     await handleConfigClick();
   });
-  
-  // Insert back button at the beginning
-  const configSection = document.querySelector(".config-section");
+
+  const configSection = document.querySelector<HTMLElement>(".config-section");
   configSection?.firstChild && configSection.insertBefore(backToConfigBtn, configSection.firstChild);
+  return configSection;
+}
+
+/**
+ * Show a success message and return to main config after a delay
+ */
+function showConfigSuccess(configSection: HTMLElement | null, message: string): void {
+  const successMsg = document.createElement("div");
+  successMsg.style.cssText = "margin: 10px 0; padding: 10px; background: #d4edda; border: 1px solid #c3e6cb; border-radius: 4px; color: #155724;";
+  successMsg.textContent = message;
+
+  if (configSection) {
+    configSection.insertBefore(successMsg, configSection.firstChild);
+  }
+
+  // Return to main config after 1.5 seconds
+  setTimeout(async () => {
+    await handleConfigClick();
+  }, 1500);
+}
+
+/**
+ * Setup event listeners for content type and slug element configuration interface
+ */
+function setupSlugElementConfigListeners(): void {
+  const applyBtn = document.getElementById("apply-slug-elements-btn");
+  const resetBtn = document.getElementById("reset-slug-elements-btn");
+  const mappingInput = document.getElementById("slug-elements-input") as HTMLInputElement;
+  const scanModeSelect = document.getElementById("scan-mode-select") as HTMLSelectElement;
+  const routePrefixesInput = document.getElementById("route-prefixes-input") as HTMLInputElement;
+  const hierarchyElementInput = document.getElementById("hierarchy-element-input") as HTMLInputElement;
+  const hierarchyRelationSelect = document.getElementById("hierarchy-relation-select") as HTMLSelectElement;
+  const similarityInput = document.getElementById("similarity-threshold-input") as HTMLInputElement;
+  const configSection = insertBackToConfigButton();
 
   applyBtn?.addEventListener("click", () => {
-    const languagesValue = languagesInput?.value.trim();
+    const mapping = parseSlugElementMapping(mappingInput?.value.trim() || "");
+    if (Object.keys(mapping).length === 0) {
+      mappingInput.style.borderColor = "#e53e3e";
+      return;
+    }
+
+    // Hierarchical mode cannot compose paths without the linked-items element
+    const scanMode = parseScanMode(scanModeSelect?.value || "");
+    const hierarchyElement = hierarchyElementInput?.value.trim() || "";
+    if (scanMode === "hierarchical" && !hierarchyElement) {
+      hierarchyElementInput.style.borderColor = "#e53e3e";
+      return;
+    }
+
+    appConfig.slugElements = mapping;
+    appConfig.scanMode = scanMode;
+    appConfig.routePrefixes = parseRoutePrefixes(routePrefixesInput?.value.trim() || "");
+    appConfig.hierarchyElement = hierarchyElement;
+    appConfig.hierarchyRelation = parseHierarchyRelation(hierarchyRelationSelect?.value || "");
+    appConfig.normalization = Array.from(
+      document.querySelectorAll<HTMLInputElement>(".normalization-rule:checked"),
+    )
+      .map((checkbox) => checkbox.value)
+      .filter(isNormalizationRule);
+    appConfig.similarityThreshold = parseSimilarityThreshold(similarityInput?.value || "");
+    setUserConfiguredSlugElements();
+    persistSettings(SCAN_SETTINGS);
+    console.log("✅ Slug element mapping updated:", mapping);
+
+    showConfigSuccess(configSection, "✅ Content types updated successfully! Returning to config...");
+  });
+
+  resetBtn?.addEventListener("click", () => {
+    // Reset to default mapping
+    appConfig.slugElements = { ...DEFAULT_SLUG_ELEMENTS };
+    appConfig.scanMode = "per-type";
+    appConfig.routePrefixes = {};
+    appConfig.hierarchyElement = "";
+    appConfig.hierarchyRelation = "subpages";
+    appConfig.normalization = [...DEFAULT_NORMALIZATION];
+    appConfig.similarityThreshold = DEFAULT_SIMILARITY_THRESHOLD;
+    forgetSettings(SCAN_SETTINGS);
+
+    // Refresh the display
+    resultDiv.innerHTML = renderSlugElementConfiguration();
+    setupSlugElementConfigListeners();
+  });
+}
+
+/**
+ * Setup event listeners for language configuration interface
+ */
+function setupLanguageConfigListeners(): void {
+  const applyBtn = document.getElementById("apply-languages-btn");
+  const resetBtn = document.getElementById("reset-languages-btn");
+  const languagesInput = document.getElementById("languages-input") as HTMLInputElement | null;
+  const defaultLangInput = document.getElementById("default-lang-input") as HTMLInputElement;
+
+  // Add a back button to return to main config
+  const configSection = insertBackToConfigButton();
+
+  applyBtn?.addEventListener("click", async () => {
+    // The language picker replaces the free-text list when the environment's languages are known
+    const checkboxes = Array.from(document.querySelectorAll<HTMLInputElement>(".language-checkbox"));
+    const languagesValue = languagesInput
+      ? languagesInput.value.trim()
+      : checkboxes
+          .filter((checkbox) => checkbox.checked)
+          .map((checkbox) => checkbox.value)
+          .join(",");
     const defaultLangValue = defaultLangInput?.value.trim();
 
+    const availableLanguages = await getEnvironmentLanguages();
+    if (
+      defaultLangValue &&
+      availableLanguages &&
+      findUnknownLanguages([defaultLangValue], availableLanguages).length > 0
+    ) {
+      defaultLangInput.style.borderColor = "#e53e3e";
+      return;
+    }
+
     console.log("🔧 User updating language configuration:", {
       languagesValue,
       defaultLangValue,
@@ -221,35 +992,26 @@ function setupLanguageConfigListeners(): void {
       appConfig.defaultLanguage = defaultLangValue;
     }
 
-    // Mark that user has configured languages manually
+    // Mark that user has configured languages manually and save them for the next sessions
     setUserConfiguredLanguages();
+    persistSettings(LANGUAGE_SETTINGS);
     
     console.log("✅ Language configuration updated:", {
       newAppConfig: { ...appConfig }
     });
 
     // Show success message and return to main config after a delay
-    const successMsg = document.createElement("div");
-    successMsg.style.cssText = "margin: 10px 0; padding: 10px; background: #d4edda; border: 1px solid #c3e6cb; border-radius: 4px; color: #155724;";
-    successMsg.textContent = "✅ Languages updated successfully! Returning to config...";
-    
-    if (configSection) {
-      configSection.insertBefore(successMsg, configSection.firstChild);
-    }
-    
-    // Return to main config after 1.5 seconds
-    setTimeout(async () => {
-      await handleConfigClick();
-    }, 1500);
+    showConfigSuccess(configSection, "✅ Languages updated successfully! Returning to config...");
   });
 
-  resetBtn?.addEventListener("click", () => {
+  resetBtn?.addEventListener("click", async () => {
     // Reset to default configuration
     appConfig.languages = [];
     appConfig.defaultLanguage = "en";
+    forgetSettings(LANGUAGE_SETTINGS);
 
     // Refresh the display
-    resultDiv.innerHTML = renderLanguageConfiguration();
+    resultDiv.innerHTML = renderLanguageConfiguration(await getEnvironmentLanguages());
     setupLanguageConfigListeners();
   });
 }
@@ -3,26 +3,55 @@
  * API service using the official Delivery SDK
  */
 
-import { createDeliveryClient, type IContentItem, type Elements } from "@kontent-ai/delivery-sdk";
-import { appConfig, isConfigValid, getConfiguredLanguages } from "../config";
-import type { ApiResult, ContentItem } from "../types";
+import type { IContentItem } from "@kontent-ai/delivery-sdk";
+import {
+  isConfigValid,
+  getConfiguredLanguages,
+  getConfiguredContentTypes,
+  getConfiguredSlugElements,
+  getContentMode,
+  getIncludeFallbacks,
+  getNormalizationRules,
+  getSimilarityThreshold,
+  getSlugElementMapping,
+  DEFAULT_SIMILARITY_THRESHOLD,
+} from "../config";
+import type {
+  ApiResult,
+  ContentItem,
+  ContentMode,
+  PublishState,
+  ScanContext,
+  SlugElementMapping,
+} from "../types";
+import { resolveSlugElement } from "../utils";
+import { createQueryCancelToken } from "./cancellation";
+import { groupFallbacks } from "./fallbacks";
+import { fetchManagementItemsWithSlugs } from "./management";
+import { normalizeSlug } from "./normalize";
+import { getRequestPool } from "./request-pool";
+import { findSlugsSimilarTo } from "./similarity";
 
-// Type for page content items with slug fields
-type PageItem = IContentItem<{
-  url_slug?: Elements.UrlSlugElement;
-  slug?: Elements.UrlSlugElement;
-}>;
+// Content items of any configured type; slug elements are resolved through the slug element mapping
+export type SlugItem = IContentItem;
 
 /**
- * Check if an item is properly translated and matches the target slug
+ * Resolve the slug of a Delivery SDK item using the configured slug element mapping
  */
-function isValidTranslatedItem(item: PageItem, targetSlug: string, requestedLanguage: string): boolean {
-  // Check if the item's language matches the requested language
-  if (item.system.language !== requestedLanguage) {
-    console.warn(`⚠️ Language mismatch for ${item.system.codename}: requested ${requestedLanguage}, got ${item.system.language}`);
-    return false;
-  }
+export function getItemSlug(item: SlugItem, mapping: SlugElementMapping) {
+  return resolveSlugElement(item.system.type, item.elements, mapping);
+}
 
+/**
+ * Check if an item has content and matches the target slug. Items in another language than the
+ * requested one are served through a language fallback and are kept, marked as such.
+ */
+function isValidTranslatedItem(
+  item: SlugItem,
+  targetSlug: string,
+  requestedLanguage: string,
+  mapping: SlugElementMapping,
+): boolean {
   // Check if it has a valid name (indicates proper translation)
   const hasValidName = item.system.name && item.system.name.trim().length > 0;
   if (!hasValidName) {
@@ -31,7 +60,7 @@ function isValidTranslatedItem(item: PageItem, targetSlug: string, requestedLang
   }
 
   // Verify the slug matches what we're looking for
-  const slugValue = item.elements.url_slug?.value || item.elements.slug?.value;
+  const slugValue = getItemSlug(item, mapping)?.value;
   if (slugValue !== targetSlug) {
     console.warn(`⚠️ Slug mismatch for ${item.system.codename}: expected "${targetSlug}", got "${slugValue}"`);
     return false;
@@ -40,79 +69,73 @@ function isValidTranslatedItem(item: PageItem, targetSlug: string, requestedLang
   return true;
 }
 
-/**
- * Create delivery client instance
- */
-function createClient() {
-  return createDeliveryClient({
-    environmentId: appConfig.environmentId,
-    secureApiKey: appConfig.deliveryApiKey || undefined,
-  });
-}
-
 /**
  * Search for items with specific slug using the Delivery SDK
  */
-export async function searchWithDeliveryApi(targetSlug: string): Promise<ApiResult> {
-  if (!isConfigValid()) {
+export async function searchWithDeliveryApi(
+  context: ScanContext,
+  targetSlug: string,
+): Promise<ApiResult> {
+  const { config, deliveryClient: client } = context;
+  if (!isConfigValid(config)) {
     return createErrorResult("Missing Kontent.ai Project ID configuration.", "delivery-sdk");
   }
 
   try {
     console.log(`\n--- Delivery SDK Search for "${targetSlug}" ---`);
-    const client = createClient();
-    const allItems: ContentItem[] = [];
-    const languagesToSearch = getConfiguredLanguages();
+    const mapping = getSlugElementMapping(config);
+    const contentMode = getContentMode(config);
+    const pool = getRequestPool(context);
+    const cancelToken = createQueryCancelToken(context.signal);
+    const languagesToSearch = getConfiguredLanguages(config);
     console.log(`🌍 Searching in languages: ${languagesToSearch.join(", ")}`);
 
-    for (const lang of languagesToSearch) {
-      console.log(`Searching in language: ${lang}`);
-      
-      // Try searching with url_slug field
-      try {
-        const response = await client
-          .items<PageItem>()
-          .type('page')
-          .equalsFilter('elements.url_slug', targetSlug)
-          .languageParameter(lang)
-          .toAllPromise(); // Automatically handles pagination!
-
-        // Filter items to only include properly translated content
-        const validItems = response.data.items.filter(item => isValidTranslatedItem(item, targetSlug, lang));
-        const items = validItems.map(item => formatSDKItem(item, lang));
-        allItems.push(...items);
-        console.log(`Found ${response.data.items.length} total items, ${validItems.length} valid translations with url_slug in ${lang}`);
-      } catch (error) {
-        console.log(`No items found with url_slug in ${lang}:`, error);
-      }
-
-      // Try searching with slug field  
-      try {
-        const response = await client
-          .items<PageItem>()
-          .type('page')
-          .equalsFilter('elements.slug', targetSlug)
-          .languageParameter(lang)
-          .toAllPromise(); // Automatically handles pagination!
-
-        // Filter items to only include properly translated content
-        const validItems = response.data.items.filter(item => isValidTranslatedItem(item, targetSlug, lang));
-        const items = validItems.map(item => formatSDKItem(item, lang));
-        allItems.push(...items);
-        console.log(`Found ${response.data.items.length} total items, ${validItems.length} valid translations with slug in ${lang}`);
-      } catch (error) {
-        console.log(`No items found with slug in ${lang}:`, error);
-      }
-    }
+    // One query per language, type and slug element, run side by side through the request pool
+    const queries = languagesToSearch.flatMap((lang) =>
+      Object.entries(mapping).flatMap(([type, fields]) =>
+        fields.map((field) => ({ lang, type, field })),
+      ),
+    );
+    const results = await Promise.all(
+      queries.map(async ({ lang, type, field }): Promise<ContentItem[]> => {
+        // Try searching with each configured slug element of the type
+        try {
+          const response = await pool.run(`delivery: ${type}.${field} in ${lang}`, () =>
+            client
+              .items<SlugItem>()
+              .type(type)
+              .equalsFilter(`elements.${field}`, targetSlug)
+              .languageParameter(lang)
+              .queryConfig({ cancelToken })
+              .toAllPromise(), // Automatically handles pagination!
+          );
+
+          // Filter items to only include content with the slug (translated or served via fallback)
+          const validItems = response.data.items.filter(item => isValidTranslatedItem(item, targetSlug, lang, mapping));
+          const fallbackCount = validItems.filter((item) => item.system.language !== lang).length;
+          console.log(`Found ${response.data.items.length} total ${type} items, ${validItems.length - fallbackCount} valid translations and ${fallbackCount} fallbacks with ${field} in ${lang}`);
+          return validItems.map(item => formatSDKItem(item, lang, mapping, undefined, contentMode));
+        } catch (error) {
+          console.log(`No ${type} items found with ${field} in ${lang}:`, error);
+          return [];
+        }
+      }),
+    );
+    const allItems = results.flat();
 
     // Remove duplicates based on codename+language
     const uniqueItems = removeDuplicateItems(allItems);
+    // Fallbacks are always reported, and only count as uses of the slug when included
+    const items = getIncludeFallbacks(config)
+      ? uniqueItems
+      : uniqueItems.filter((item) => !item.fallbackFrom);
 
     return {
       success: true,
-      items: uniqueItems,
+      items,
       method: "delivery-sdk",
-      totalItems: uniqueItems.length,
+      totalItems: items.length,
+      fallbacks: groupFallbacks(uniqueItems),
     };
   } catch (error: unknown) {
     console.error("Delivery SDK search error:", error);
@@ -126,31 +149,41 @@ export async function searchWithDeliveryApi(targetSlug: string): Promise<ApiResu
 /**
  * Search all items for analysis using the Delivery SDK  
  */
-export async function searchAllItemsDeliveryApi(targetSlug: string): Promise<ApiResult> {
-  if (!isConfigValid()) {
+export async function searchAllItemsDeliveryApi(
+  context: ScanContext,
+  targetSlug: string,
+): Promise<ApiResult> {
+  const { config, deliveryClient: client } = context;
+  if (!isConfigValid(config)) {
     return createErrorResult("Missing Kontent.ai Project ID configuration.", "delivery-sdk-all");
   }
 
   try {
     console.log(`\n--- Delivery SDK All Items Search ---`);
-    const client = createClient();
-    const allItems: ContentItem[] = [];
+    const mapping = getSlugElementMapping(config);
+    const contentMode = getContentMode(config);
+    const pool = getRequestPool(context);
+    const cancelToken = createQueryCancelToken(context.signal);
 
-    const languagesToSearch = getConfiguredLanguages();
-    for (const lang of languagesToSearch) {
-      console.log(`Fetching all page items in language: ${lang}`);
+    // Languages are fetched side by side through the request pool
+    const languagesToSearch = getConfiguredLanguages(config);
+    const itemsPerLanguage = await Promise.all(languagesToSearch.map(async (lang) => {
+      console.log(`Fetching all slug items in language: ${lang}`);
       
-      const response = await client
-        .items<PageItem>()
-        .type('page')
-        .languageParameter(lang)
-        .elementsParameter(['url_slug', 'slug'])
-        .toAllPromise(); // SDK handles pagination automatically!
+      const response = await pool.run(`delivery: all items in ${lang}`, () =>
+        client
+          .items<SlugItem>()
+          .types(getConfiguredContentTypes(config))
+          .languageParameter(lang)
+          .elementsParameter(getConfiguredSlugElements(config))
+          .queryConfig({ cancelToken })
+          .toAllPromise(), // SDK handles pagination automatically!
+      );
 
       // Filter to only properly translated items with slugs  
       const validItems = response.data.items.filter(item => {
         // Check if item has slug
-        const hasSlug = item.elements.url_slug?.value || item.elements.slug?.value;
+        const hasSlug = getItemSlug(item, mapping);
         if (!hasSlug) return false;
         
         // Check if item is properly translated
@@ -159,20 +192,29 @@ export async function searchAllItemsDeliveryApi(targetSlug: string): Promise<Api
                item.system.name.trim().length > 0;
       });
       
-      const items = validItems.map(item => formatSDKItem(item, lang));
-      allItems.push(...items);
       console.log(`Fetched ${response.data.items.length} total items, ${validItems.length} properly translated with slugs in ${lang}`);
-    }
+      return validItems.map(item => formatSDKItem(item, lang, mapping, undefined, contentMode));
+    }));
+    const allItems = itemsPerLanguage.flat();
 
     // Analyze slug data
     const allSlugs = [...new Set(allItems.map(item => item.slug))];
     const exactMatches = allItems.filter(item => item.slug === targetSlug);
-    const similarSlugs = allSlugs.filter(slug => 
-      slug?.toLowerCase().includes(targetSlug.toLowerCase())
+    const normalization = getNormalizationRules(config);
+    const normalizedTarget = normalizeSlug(targetSlug, normalization);
+    const normalizedMatches = allItems.filter(
+      (item) => normalizeSlug(item.slug, normalization) === normalizedTarget,
     );
+    // Rank by edit distance and token similarity; a disabled analysis still uses the default here
+    const similarSlugs = findSlugsSimilarTo(
+      targetSlug,
+      allSlugs,
+      getSimilarityThreshold(config) || DEFAULT_SIMILARITY_THRESHOLD,
+    ).map((pair) => pair.b);
 
     console.log(`Total unique slugs: ${allSlugs.length}`);
     console.log(`Exact matches for "${targetSlug}": ${exactMatches.length}`);
+    console.log(`Normalized matches for "${normalizedTarget}": ${normalizedMatches.length}`);
     console.log(`Similar slugs:`, similarSlugs.slice(0, 10)); // Show first 10
 
     return {
@@ -181,6 +223,7 @@ export async function searchAllItemsDeliveryApi(targetSlug: string): Promise<Api
       method: "delivery-sdk-all",
       totalItems: allItems.length,
       exactMatches: exactMatches.length,
+      caseInsensitiveMatches: normalizedMatches.length,
       allSlugsCount: allSlugs.length,
       similarSlugs: similarSlugs.slice(0, 20), // Limit to first 20
     };
@@ -194,34 +237,85 @@ export async function searchAllItemsDeliveryApi(targetSlug: string): Promise<Api
 }
 
 /**
- * Management API search (placeholder - would need Management SDK)
+ * Search latest language variants (including drafts) with specific slug using the Management API
  */
-export async function searchWithManagementApi(targetSlug: string): Promise<ApiResult> {
-  console.log(`\n--- Management API Search (Not implemented) ---`);
-  console.log(`Would search for: ${targetSlug}`);
-  
-  return {
-    success: true,
-    items: [],
-    method: "management-api",
-    note: "Management API integration would require @kontent-ai/management-sdk for full implementation",
-  };
+export async function searchWithManagementApi(
+  context: ScanContext,
+  targetSlug: string,
+): Promise<ApiResult> {
+  const { config } = context;
+  if (!isConfigValid(config) || !config.managementApiKey) {
+    return createErrorResult("Missing Management API key configuration.", "management-api");
+  }
+
+  try {
+    console.log(`\n--- Management API Search for "${targetSlug}" ---`);
+    const allItems = await fetchManagementItemsWithSlugs(context, getConfiguredLanguages(config));
+    const items = allItems.filter((item) => item.slug === targetSlug);
+    const drafts = items.filter((item) => item.publishState !== "published").length;
+
+    console.log(`Found ${items.length} variants with slug "${targetSlug}" (${drafts} unpublished)`);
+
+    return {
+      success: true,
+      items,
+      method: "management-api",
+      totalItems: allItems.length,
+      exactMatches: items.length,
+      note: `${drafts} of ${items.length} matching variant(s) are not published`,
+    };
+  } catch (error: unknown) {
+    console.error("Management API search error:", error);
+    return createErrorResult(
+      error instanceof Error ? error.message : String(error),
+      "management-api",
+    );
+  }
+}
+
+/**
+ * Derive the publishing state of a latest version from its workflow step codename
+ */
+function getPreviewPublishState(workflowStep: string | null | undefined): PublishState {
+  return workflowStep === "published" || workflowStep === "archived" || workflowStep === "scheduled"
+    ? workflowStep
+    : "draft";
 }
 
 /**
  * Format SDK item to our ContentItem interface
  */
-function formatSDKItem(item: PageItem, language: string): ContentItem {
-  const slugValue = item.elements.url_slug?.value || item.elements.slug?.value || "No slug";
-  const slugField = item.elements.url_slug?.value ? "url_slug" : "slug";
+export function formatSDKItem(
+  item: SlugItem,
+  language: string,
+  mapping: SlugElementMapping,
+  hierarchyElement?: string,
+  contentMode: ContentMode = "published",
+): ContentItem {
+  const slug = getItemSlug(item, mapping);
+  const linkedItems = hierarchyElement ? item.elements[hierarchyElement]?.value : undefined;
+  const slugValue = slug?.value || "No slug";
+  const slugField = slug?.field || "none";
+  // The Preview API returns the latest version, which is the published one only in that step
+  const publishState =
+    contentMode === "preview" ? getPreviewPublishState(item.system.workflowStep) : "published";
 
   return {
+    id: item.system.id,
     name: item.system.name || "Unknown",
     codename: item.system.codename || "Unknown",  
-    type: item.system.type || "page",
+    type: item.system.type || "Unknown",
     language: language,
     slug: slugValue,
     slugField: slugField,
+    collection: item.system.collection,
+    workflowStep: item.system.workflowStep || undefined,
+    publishState,
+    slugVersion: publishState === "published" ? "published" : "latest",
+    source: "delivery",
+    linkedItems: Array.isArray(linkedItems) ? linkedItems : undefined,
+    // The Delivery API serves another language's variant when the item is not translated
+    fallbackFrom: item.system.language !== language ? item.system.language : undefined,
   };
 }
 
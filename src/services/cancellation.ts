@@ -0,0 +1,23 @@
+/**
+ * Cancellation of long-running scans through an AbortSignal
+ */
+
+import { type IHttpCancelRequestToken, createCancelToken } from "@kontent-ai/core-sdk";
+
+/**
+ * Create a Delivery SDK cancel token that cancels the pending and all further requests of a
+ * query once the signal aborts
+ */
+export function createQueryCancelToken(
+  signal?: AbortSignal,
+): IHttpCancelRequestToken<unknown> | undefined {
+  if (!signal) return undefined;
+
+  const cancelToken = createCancelToken();
+  if (signal.aborted) {
+    cancelToken.cancel("Scan cancelled");
+  } else {
+    signal.addEventListener("abort", () => cancelToken.cancel("Scan cancelled"), { once: true });
+  }
+  return cancelToken;
+}
@@ -0,0 +1,429 @@
+/**
+ * Export duplicate and slug search reports as CSV, JSON and Excel-friendly CSV files
+ */
+
+import { getConfiguredContentTypes, getConfiguredLanguages } from "../config";
+import type {
+  ApiResult,
+  AppConfig,
+  DuplicateResult,
+  ExportFormat,
+  ExportMetadata,
+  LanguageFallbacks,
+  PreviewComparison,
+  RedirectFormat,
+  SlugHealthReport,
+  UrlReconciliation,
+} from "../types";
+import { highestSeverity } from "./slug-lint";
+
+type CsvRow = Record<string, string | number | boolean | undefined>;
+
+const UTF8_BOM = "\uFEFF";
+
+const DUPLICATE_COLUMNS = [
+  "category",
+  "slug",
+  "raw_slug",
+  "name",
+  "codename",
+  "type",
+  "collection",
+  "language",
+  "language_space",
+  "fallback_from",
+  "slug_field",
+  "status",
+  "slug_version",
+  "workflow_step",
+  "cross_type",
+  "collision_rules",
+  "ancestors",
+  "lint_severity",
+  "lint_rules",
+  "suggested_slug",
+  "suggestion_reason",
+];
+
+const SEARCH_COLUMNS = [
+  "slug",
+  "name",
+  "codename",
+  "type",
+  "collection",
+  "language",
+  "fallback_from",
+  "slug_field",
+  "status",
+  "slug_version",
+  "workflow_step",
+  "source",
+  "lint_severity",
+  "lint_rules",
+  "suggested_slug",
+];
+
+const RECONCILIATION_COLUMNS = ["category", "url", "language", "slug", "name", "codename", "type"];
+
+/**
+ * Collect the metadata that identifies where and when a report was produced
+ */
+export function createExportMetadata(config: AppConfig, languages?: string[]): ExportMetadata {
+  return {
+    environmentId: config.environmentId,
+    languages: languages || getConfiguredLanguages(config),
+    contentTypes: getConfiguredContentTypes(config),
+    generatedAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Flatten duplicate results to one row per slug, content item and language, followed by the
+ * variants served through fallbacks and the slug health findings
+ */
+export function buildDuplicateRows(result: DuplicateResult): CsvRow[] {
+  return [
+    ...buildCollisionRows(result),
+    ...buildFallbackRows(result.fallbacks),
+    ...buildSlugHealthRows(result.slugHealth),
+  ];
+}
+
+/**
+ * One row per variant a language serves through a fallback
+ */
+function buildFallbackRows(fallbacks: LanguageFallbacks[] | undefined): CsvRow[] {
+  return (fallbacks || []).flatMap(({ items }) =>
+    items.map((item) => ({
+      category: "fallback",
+      slug: item.slug,
+      raw_slug: item.slug,
+      name: item.name,
+      codename: item.codename,
+      type: item.type,
+      collection: item.collection,
+      language: item.language,
+      fallback_from: item.fallbackFrom,
+      slug_field: item.slugField,
+      status: item.publishState,
+      slug_version: item.slugVersion,
+      workflow_step: item.workflowStep,
+    })),
+  );
+}
+
+/**
+ * One row per duplicate slug, content item and language
+ */
+function buildCollisionRows(result: DuplicateResult): CsvRow[] {
+  return result.duplicates.flatMap((duplicate) =>
+    duplicate.items.flatMap((item) =>
+      (item.languages || item.language.split(", ")).map((language) => {
+        const suggestion = duplicate.suggestions?.find(
+          (fix) => fix.codename === item.codename && fix.language === language,
+        );
+        return {
+          category: "duplicate",
+          slug: duplicate.slug,
+          raw_slug: item.slug,
+          name: item.name,
+          codename: item.codename,
+          type: item.type,
+          collection: item.collection,
+          language,
+          language_space: duplicate.languageSpace,
+          fallback_from: item.fallbacks?.[language],
+          slug_field: item.slugField,
+          status: item.publishStates?.join(" | "),
+          slug_version: item.slugVersions?.join(" | "),
+          workflow_step: item.workflowSteps?.join(" | "),
+          cross_type: Boolean(duplicate.crossType),
+          collision_rules: duplicate.collisionRules?.join(" | "),
+          ancestors: item.ancestors?.map((ancestor) => ancestor.codename).join(" > "),
+          suggested_slug: suggestion?.suggestedSlug,
+          suggestion_reason: suggestion?.reason,
+        };
+      }),
+    ),
+  );
+}
+
+/**
+ * One row per linted slug with issues; the proposed fix is the suggested slug
+ */
+export function buildSlugHealthRows(health: SlugHealthReport | undefined): CsvRow[] {
+  return (health?.findings || []).map((finding) => ({
+    category: "lint",
+    slug: finding.slug,
+    raw_slug: finding.slug,
+    name: finding.name,
+    codename: finding.codename,
+    type: finding.type,
+    collection: finding.collection,
+    language: finding.language,
+    slug_field: finding.slugField,
+    lint_severity: highestSeverity(finding.issues),
+    lint_rules: finding.issues.map((issue) => issue.rule).join(" | "),
+    suggested_slug: finding.fixedSlug,
+    suggestion_reason: finding.issues.map((issue) => issue.message).join("; "),
+  }));
+}
+
+/**
+ * Flatten slug search results to one row per content item and language
+ */
+export function buildSearchRows(result: ApiResult): CsvRow[] {
+  const findings = result.slugHealth?.findings || [];
+
+  return result.items.map((item) => {
+    const finding = findings.find(
+      (lint) => lint.codename === item.codename && lint.language === item.language,
+    );
+    return {
+      slug: item.slug,
+      name: item.name,
+      codename: item.codename,
+      type: item.type,
+      collection: item.collection,
+      language: item.language,
+      fallback_from: item.fallbackFrom,
+      slug_field: item.slugField,
+      status: item.publishState,
+      slug_version: item.slugVersion,
+      workflow_step: item.workflowStep,
+      source: item.source,
+      lint_severity: finding ? highestSeverity(finding.issues) : undefined,
+      lint_rules: finding?.issues.map((issue) => issue.rule).join(" | "),
+      suggested_slug: finding?.fixedSlug,
+    };
+  });
+}
+
+/**
+ * Escape a single CSV value; the Excel variant also neutralizes values that would be
+ * interpreted as formulas
+ */
+function escapeCsvValue(value: CsvRow[string], excel: boolean): string {
+  let text = value === undefined ? "" : String(value);
+  if (excel && /^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Parse CSV text into rows of values; quoted values may contain commas, quotes ("") and line
+ * breaks. A leading UTF-8 BOM is ignored.
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let value = "";
+  let quoted = false;
+  const input = text.startsWith(UTF8_BOM) ? text.slice(1) : text;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        value += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        value += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(value);
+      value = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") i++;
+      row.push(value);
+      rows.push(row);
+      row = [];
+      value = "";
+    } else {
+      value += char;
+    }
+  }
+  if (value || row.length > 0) {
+    row.push(value);
+    rows.push(row);
+  }
+
+  return rows.filter((values) => values.some((entry) => entry.trim()));
+}
+
+/**
+ * Serialize rows to CSV; the Excel variant adds a UTF-8 BOM so non-ASCII slugs open correctly
+ */
+export function toCsv(rows: CsvRow[], columns: string[], excel = false): string {
+  const lines = [
+    columns.join(","),
+    ...rows.map((row) => columns.map((column) => escapeCsvValue(row[column], excel)).join(",")),
+  ];
+
+  return (excel ? UTF8_BOM : "") + lines.join("\r\n");
+}
+
+/**
+ * Serialize duplicate results in the requested format
+ */
+export function exportDuplicateResult(
+  config: AppConfig,
+  result: DuplicateResult,
+  format: ExportFormat,
+): string {
+  if (format === "json") {
+    return JSON.stringify(
+      { metadata: createExportMetadata(config, result.languages), ...result },
+      null,
+      2,
+    );
+  }
+
+  return toCsv(buildDuplicateRows(result), DUPLICATE_COLUMNS, format === "excel");
+}
+
+/**
+ * Serialize a published vs. preview comparison; CSV files list the upcoming collisions and the
+ * slug health of the preview content
+ */
+export function exportPreviewComparison(
+  config: AppConfig,
+  comparison: PreviewComparison,
+  format: ExportFormat,
+): string {
+  if (format === "json") {
+    return JSON.stringify(
+      { metadata: createExportMetadata(config, comparison.preview.languages), ...comparison },
+      null,
+      2,
+    );
+  }
+
+  return toCsv(
+    buildDuplicateRows({
+      duplicates: comparison.upcoming,
+      slugHealth: comparison.preview.slugHealth,
+    }),
+    DUPLICATE_COLUMNS,
+    format === "excel",
+  );
+}
+
+/**
+ * Serialize slug search results in the requested format
+ */
+export function exportSearchResult(
+  config: AppConfig,
+  result: ApiResult,
+  targetSlug: string,
+  format: ExportFormat,
+): string {
+  if (format === "json") {
+    return JSON.stringify(
+      { metadata: { ...createExportMetadata(config), targetSlug }, ...result },
+      null,
+      2,
+    );
+  }
+
+  return toCsv(buildSearchRows(result), SEARCH_COLUMNS, format === "excel");
+}
+
+/**
+ * Flatten a URL reconciliation to one row per URL without item, per item of an ambiguous URL and
+ * per item without URL
+ */
+function buildReconciliationRows(report: UrlReconciliation): CsvRow[] {
+  return [
+    ...report.orphanUrls.map((orphan) => ({
+      category: "orphan-url",
+      url: orphan.url,
+      language: orphan.candidates.map((candidate) => candidate.language).join(", "),
+      slug: [...new Set(orphan.candidates.map((candidate) => candidate.slug))].join(", "),
+    })),
+    ...report.ambiguousUrls.flatMap((ambiguous) =>
+      ambiguous.items.map((item) => ({
+        category: "ambiguous-url",
+        url: ambiguous.url,
+        language: item.language,
+        slug: item.path,
+        name: item.name,
+        codename: item.codename,
+        type: item.type,
+      })),
+    ),
+    ...report.orphanItems.map((item) => ({
+      category: "orphan-item",
+      language: item.language,
+      slug: item.path,
+      name: item.name,
+      codename: item.codename,
+      type: item.type,
+    })),
+  ];
+}
+
+/**
+ * Serialize a URL reconciliation in the requested format
+ */
+export function exportUrlReconciliation(
+  config: AppConfig,
+  report: UrlReconciliation,
+  format: ExportFormat,
+): string {
+  if (format === "json") {
+    return JSON.stringify(
+      { metadata: createExportMetadata(config, report.languages), ...report },
+      null,
+      2,
+    );
+  }
+
+  return toCsv(buildReconciliationRows(report), RECONCILIATION_COLUMNS, format === "excel");
+}
+
+/**
+ * Build a descriptive file name, e.g. "duplicate-slugs-<environment>-2024-05-01T10-00-00.csv"
+ */
+export function createExportFileName(
+  config: AppConfig,
+  report: string,
+  format: ExportFormat,
+): string {
+  const timestamp = new Date().toISOString().replace(/[:.]/g, "-").slice(0, 19);
+  const extension = format === "json" ? "json" : "csv";
+  const environment = config.environmentId ? `-${config.environmentId}` : "";
+
+  return `${report}${environment}-${timestamp}.${extension}`;
+}
+
+/**
+ * Offer the content as a file download in the browser
+ */
+export function downloadFile(
+  fileName: string,
+  content: string,
+  format: ExportFormat | RedirectFormat,
+): void {
+  const mimeType =
+    format === "json"
+      ? "application/json"
+      : format === "csv" || format === "excel"
+        ? "text/csv;charset=utf-8"
+        : "text/plain;charset=utf-8";
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
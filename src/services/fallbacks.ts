@@ -0,0 +1,43 @@
+/**
+ * Language fallbacks: items a language serves with the variant (and slug) of another language
+ */
+
+import type { ContentItem, LanguageFallbacks } from "../types";
+
+/**
+ * Describe where a fallback variant comes from, e.g. "via fallback from en"
+ */
+export function describeFallback(fallbackFrom: string): string {
+  return `via fallback from ${fallbackFrom}`;
+}
+
+/**
+ * Group the items served through fallbacks by the language serving them, in language order
+ */
+export function groupFallbacks(items: ContentItem[]): LanguageFallbacks[] {
+  const byLanguage = new Map<string, ContentItem[]>();
+  for (const item of items) {
+    if (!item.fallbackFrom) continue;
+    if (!byLanguage.has(item.language)) {
+      byLanguage.set(item.language, []);
+    }
+    byLanguage.get(item.language)?.push(item);
+  }
+
+  return Array.from(byLanguage.entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([language, languageItems]) => ({ language, items: languageItems }));
+}
+
+/**
+ * Log the items served through fallbacks for debugging
+ */
+export function logFallbacks(fallbacks: LanguageFallbacks[]): void {
+  const total = fallbacks.reduce((sum, group) => sum + group.items.length, 0);
+  console.log(`🔁 ${total} item(s) served through language fallbacks`);
+  for (const { language, items } of fallbacks) {
+    console.log(
+      `- ${language}: ${items.map((item) => `${item.codename} (${describeFallback(item.fallbackFrom || "")})`).join(", ")}`,
+    );
+  }
+}
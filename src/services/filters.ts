@@ -0,0 +1,119 @@
+/**
+ * Scan filters narrowing a scan to collections, workflow steps, taxonomy terms and a
+ * last-modified window
+ */
+
+import type { IDeliveryClient } from "@kontent-ai/delivery-sdk";
+import { getScanFilters } from "../config";
+import type { ContentMode, ScanContext, ScanFilters } from "../types";
+
+type ItemsQuery = ReturnType<IDeliveryClient["items"]>;
+
+/**
+ * Fields of a language variant the filters are checked against
+ */
+export interface FilterableVariant {
+  collection?: string;
+  workflowStep?: string;
+  lastModified?: string;
+  // Term codenames of the filtered taxonomy element
+  taxonomyTerms?: string[];
+}
+
+/**
+ * Get the filters of a scan: the ones given for this scan, or the configured ones
+ */
+export function getActiveFilters(context: ScanContext): ScanFilters {
+  return context.filters || getScanFilters(context.config);
+}
+
+/**
+ * Check whether any filter narrows the scan
+ */
+export function hasActiveFilters(filters: ScanFilters): boolean {
+  return Boolean(
+    filters.collections?.length ||
+      filters.workflowSteps?.length ||
+      filters.taxonomy?.terms.length ||
+      filters.modifiedAfter ||
+      filters.modifiedBefore,
+  );
+}
+
+/**
+ * Add the filters to a Delivery API items query
+ */
+export function applyDeliveryFilters(
+  query: ItemsQuery,
+  filters: ScanFilters,
+  contentMode: ContentMode,
+): ItemsQuery {
+  let filtered = query;
+  if (filters.collections?.length) {
+    filtered = filtered.collections(filters.collections);
+  }
+  // Published content has no other step than "published"
+  if (contentMode === "preview" && filters.workflowSteps?.length) {
+    filtered = filtered.inFilter("system.workflow_step", filters.workflowSteps);
+  }
+  if (filters.taxonomy?.terms.length) {
+    filtered = filtered.anyFilter(`elements.${filters.taxonomy.element}`, filters.taxonomy.terms);
+  }
+  if (filters.modifiedAfter) {
+    filtered = filtered.greaterThanOrEqualFilter("system.last_modified", filters.modifiedAfter);
+  }
+  if (filters.modifiedBefore) {
+    filtered = filtered.lessThanFilter("system.last_modified", filters.modifiedBefore);
+  }
+
+  return filtered;
+}
+
+/**
+ * Check a language variant read through the Management API against the filters
+ */
+export function matchesFilters(variant: FilterableVariant, filters: ScanFilters): boolean {
+  if (filters.collections?.length && !filters.collections.includes(variant.collection || "")) {
+    return false;
+  }
+  if (
+    filters.workflowSteps?.length &&
+    !filters.workflowSteps.includes(variant.workflowStep || "")
+  ) {
+    return false;
+  }
+  if (
+    filters.taxonomy?.terms.length &&
+    !variant.taxonomyTerms?.some((term) => filters.taxonomy?.terms.includes(term))
+  ) {
+    return false;
+  }
+
+  const lastModified = variant.lastModified ? Date.parse(variant.lastModified) : Number.NaN;
+  if (filters.modifiedAfter && !(lastModified >= Date.parse(filters.modifiedAfter))) {
+    return false;
+  }
+  if (filters.modifiedBefore && !(lastModified < Date.parse(filters.modifiedBefore))) {
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * Describe the filters of a scan for logs and reports, e.g. "collections: brand_a; modified
+ * after 2024-05-01"
+ */
+export function describeFilters(filters: ScanFilters): string {
+  const parts = [
+    filters.collections?.length ? `collections: ${filters.collections.join(", ")}` : "",
+    filters.workflowSteps?.length ? `workflow steps: ${filters.workflowSteps.join(", ")}` : "",
+    filters.taxonomy?.terms.length
+      ? `${filters.taxonomy.element}: ${filters.taxonomy.terms.join(" | ")}`
+      : "",
+    filters.modifiedAfter ? `modified after ${filters.modifiedAfter.slice(0, 10)}` : "",
+    filters.modifiedBefore ? `modified before ${filters.modifiedBefore.slice(0, 10)}` : "",
+  ];
+
+  return parts.filter((part) => part).join("; ") || "none";
+}
@@ -0,0 +1,108 @@
+/**
+ * Compose full URL paths from the slugs of a page's ancestors (e.g. "products/shoes/running")
+ */
+
+import type { ContentItem, HierarchyRelation, PathAncestor } from "../types";
+import { buildRoutePath } from "../utils";
+
+export interface HierarchicalPath {
+  path: string;
+  // Path of the direct parent (or the route prefix of a root page)
+  parentPath: string;
+  // Ancestors from the root page down to the direct parent
+  ancestors: PathAncestor[];
+  // The chain of parents loops back onto itself and was cut where it repeats
+  cycle: boolean;
+}
+
+/**
+ * Key of a language variant
+ */
+function variantKey(codename: string, language: string): string {
+  return `${codename}|${language}`;
+}
+
+/**
+ * Map every language variant to the codename of its parent page
+ */
+function buildParentIndex(items: ContentItem[], relation: HierarchyRelation): Map<string, string> {
+  const parents = new Map<string, string>();
+
+  for (const item of items) {
+    const linkedItems = item.linkedItems || [];
+
+    if (relation === "parent") {
+      // Only the first linked item is treated as the parent
+      const key = variantKey(item.codename, item.language);
+      if (linkedItems.length > 0 && !parents.has(key)) {
+        parents.set(key, linkedItems[0]);
+      }
+      continue;
+    }
+
+    for (const subpage of linkedItems) {
+      // A page listed as subpage of several pages keeps the first parent found
+      const key = variantKey(subpage, item.language);
+      if (!parents.has(key)) {
+        parents.set(key, item.codename);
+      }
+    }
+  }
+
+  return parents;
+}
+
+/**
+ * Create a resolver that composes the full path of an item in its language. Parents that are
+ * not among the items (other content types, untranslated variants) end the chain, so the
+ * topmost page found is routed under the route prefix of its type.
+ */
+export function createPathResolver(
+  items: ContentItem[],
+  relation: HierarchyRelation,
+  getRoutePrefix: (type: string) => string,
+): (item: ContentItem) => HierarchicalPath {
+  const parents = buildParentIndex(items, relation);
+  const variants = new Map<string, ContentItem>();
+  for (const item of items) {
+    const key = variantKey(item.codename, item.language);
+    if (!variants.has(key)) {
+      variants.set(key, item);
+    }
+  }
+
+  return (item) => {
+    const chain: ContentItem[] = [];
+    const seen = new Set([variantKey(item.codename, item.language)]);
+    let cycle = false;
+    let parent = parents.get(variantKey(item.codename, item.language));
+
+    while (parent) {
+      const parentKey = variantKey(parent, item.language);
+      if (seen.has(parentKey)) {
+        cycle = true;
+        break;
+      }
+
+      const parentItem = variants.get(parentKey);
+      if (!parentItem) break;
+
+      seen.add(parentKey);
+      chain.unshift(parentItem);
+      parent = parents.get(parentKey);
+    }
+
+    const root = chain[0] || item;
+    const parentPath = chain.reduce(
+      (path, page) => buildRoutePath(path, page.slug),
+      getRoutePrefix(root.type),
+    );
+
+    return {
+      path: buildRoutePath(parentPath, item.slug),
+      parentPath,
+      ancestors: chain.map(({ name, codename, slug }) => ({ name, codename, slug })),
+      cycle,
+    };
+  };
+}
@@ -0,0 +1,64 @@
+/**
+ * Discovery of the environment's languages and validation of the configured language codenames
+ */
+
+import { getConfiguredLanguages } from "../config";
+import type { EnvironmentLanguage, ScanContext } from "../types";
+import { fetchManagementLanguages } from "./management";
+
+export interface LanguageCheck {
+  // Languages of the environment, or null when they could not be fetched
+  available: EnvironmentLanguage[] | null;
+  // Configured codenames that are not languages of the environment
+  unknown: string[];
+}
+
+/**
+ * Fetch the languages of the environment. The Management API also returns fallback languages
+ * and inactive languages, so it is preferred when a key is configured.
+ */
+export async function fetchEnvironmentLanguages(
+  context: ScanContext,
+): Promise<EnvironmentLanguage[]> {
+  const { config, deliveryClient } = context;
+
+  if (config.managementApiKey) {
+    return fetchManagementLanguages(config);
+  }
+
+  const response = await deliveryClient.languages().toAllPromise();
+  return response.data.items.map((lang) => ({
+    id: lang.system.id,
+    name: lang.system.name,
+    codename: lang.system.codename,
+  }));
+}
+
+/**
+ * Find the codenames that are not languages of the environment
+ */
+export function findUnknownLanguages(
+  codenames: string[],
+  available: EnvironmentLanguage[],
+): string[] {
+  const known = new Set(available.map((lang) => lang.codename));
+  return codenames.filter((codename) => !known.has(codename));
+}
+
+/**
+ * Check the configured languages against the environment. A failed lookup does not block a
+ * scan, since the configured languages may still be right.
+ */
+export async function checkConfiguredLanguages(context: ScanContext): Promise<LanguageCheck> {
+  try {
+    const available = await fetchEnvironmentLanguages(context);
+    const unknown = findUnknownLanguages(getConfiguredLanguages(context.config), available);
+    if (unknown.length > 0) {
+      console.warn(`⚠️ Unknown language codenames: ${unknown.join(", ")}`);
+    }
+    return { available, unknown };
+  } catch (error) {
+    console.warn("⚠️ Could not fetch the environment languages:", error);
+    return { available: null, unknown: [] };
+  }
+}
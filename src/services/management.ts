@@ -0,0 +1,466 @@
+/**
+ * Management API service for reading slugs of all language variants, including drafts
+ */
+
+import { getHierarchyElement, getSlugElementMapping } from "../config";
+import type {
+  AppConfig,
+  ContentItem,
+  EnvironmentLanguage,
+  PublishState,
+  RequestPool,
+  ScanContext,
+  ScanFilters,
+} from "../types";
+import { createApiHeaders } from "../utils";
+import { hasActiveFilters, matchesFilters } from "./filters";
+import { fetchWithRetry, getRequestPool } from "./request-pool";
+
+const MANAGEMENT_API_BASE_URL = "https://manage.kontent.ai/v2/projects";
+
+// Raw Management API shapes (partial)
+interface Reference {
+  id: string;
+}
+
+interface ManagementPagination {
+  continuation_token: string | null;
+  next_page: string | null;
+}
+
+interface ManagementLanguage {
+  id: string;
+  name: string;
+  codename: string;
+  is_active: boolean;
+  is_default?: boolean;
+  fallback_language?: Reference;
+}
+
+interface ManagementWorkflowStep {
+  id: string;
+  name: string;
+  codename: string;
+}
+
+interface ManagementWorkflow {
+  id: string;
+  name: string;
+  codename: string;
+  steps: ManagementWorkflowStep[];
+  published_step: ManagementWorkflowStep;
+  archived_step: ManagementWorkflowStep;
+  scheduled_step?: ManagementWorkflowStep;
+}
+
+export interface ManagementContentType {
+  id: string;
+  codename: string;
+  elements: Array<{ id: string; codename?: string; type: string }>;
+}
+
+interface ManagementItem {
+  id: string;
+  name: string;
+  codename: string;
+  type: Reference;
+  collection?: Reference;
+}
+
+interface ManagementCollection {
+  id: string;
+  name: string;
+  codename: string;
+}
+
+interface ManagementTaxonomyTerm {
+  id: string;
+  codename: string;
+  terms: ManagementTaxonomyTerm[];
+}
+
+export interface ManagementVariant {
+  item: Reference;
+  language: Reference;
+  elements: Array<{ element: Reference; value: unknown }>;
+  workflow?: { workflow_identifier: Reference; step_identifier: Reference };
+  workflow_step?: Reference;
+  last_modified?: string;
+}
+
+export interface WorkflowStepInfo {
+  name: string;
+  codename: string;
+  state: PublishState;
+}
+
+/**
+ * Element value written to a language variant; URL slug elements need mode "custom" to keep
+ * a manually set value
+ */
+export interface ManagementElementValue {
+  element: { codename: string };
+  value: unknown;
+  mode?: "custom" | "autogenerated";
+}
+
+/**
+ * Perform a request against the Management API and parse the JSON body (if any)
+ */
+async function managementRequest<T>(
+  config: AppConfig,
+  method: "GET" | "PUT",
+  path: string,
+  options: { body?: unknown; continuationToken?: string | null; signal?: AbortSignal } = {},
+): Promise<T> {
+  const headers = createApiHeaders(config.managementApiKey);
+  if (options.continuationToken) {
+    headers["x-continuation"] = options.continuationToken;
+  }
+
+  const response = await fetchWithRetry(
+    `${MANAGEMENT_API_BASE_URL}/${config.environmentId}/${path}`,
+    {
+      method,
+      headers,
+      body: options.body === undefined ? undefined : JSON.stringify(options.body),
+      signal: options.signal,
+    },
+  );
+
+  if (!response.ok) {
+    const body = await response.text();
+    throw new Error(`Management API request to "${path}" failed (${response.status}): ${body}`);
+  }
+
+  const text = await response.text();
+  return (text ? JSON.parse(text) : undefined) as T;
+}
+
+/**
+ * Perform a GET request against the Management API and parse the JSON body
+ */
+function managementGet<T>(
+  config: AppConfig,
+  path: string,
+  continuationToken?: string | null,
+  signal?: AbortSignal,
+): Promise<T> {
+  return managementRequest<T>(config, "GET", path, { continuationToken, signal });
+}
+
+/**
+ * Fetch every page of a paginated Management API listing, each page through the request pool
+ * when one is given
+ */
+async function managementGetAll<T>(
+  config: AppConfig,
+  path: string,
+  key: string,
+  signal?: AbortSignal,
+  pool?: RequestPool,
+): Promise<T[]> {
+  const results: T[] = [];
+  let continuationToken: string | null = null;
+
+  do {
+    const token: string | null = continuationToken;
+    const fetchPage = () =>
+      managementGet<Record<string, unknown> & { pagination: ManagementPagination }>(
+        config,
+        path,
+        token,
+        signal,
+      );
+    const page: Record<string, unknown> & { pagination: ManagementPagination } = await (pool
+      ? pool.run(`management: ${path}`, fetchPage)
+      : fetchPage());
+    results.push(...((page[key] as T[]) || []));
+    continuationToken = page.pagination?.continuation_token || null;
+  } while (continuationToken);
+
+  return results;
+}
+
+/**
+ * Map workflow step IDs to their display name and publishing state
+ */
+function buildWorkflowStepMap(workflows: ManagementWorkflow[]): Map<string, WorkflowStepInfo> {
+  const steps = new Map<string, WorkflowStepInfo>();
+
+  for (const workflow of workflows) {
+    for (const step of workflow.steps) {
+      steps.set(step.id, { name: step.name, codename: step.codename, state: "draft" });
+    }
+    steps.set(workflow.published_step.id, {
+      name: workflow.published_step.name,
+      codename: workflow.published_step.codename,
+      state: "published",
+    });
+    steps.set(workflow.archived_step.id, {
+      name: workflow.archived_step.name,
+      codename: workflow.archived_step.codename,
+      state: "archived",
+    });
+    if (workflow.scheduled_step) {
+      steps.set(workflow.scheduled_step.id, {
+        name: workflow.scheduled_step.name,
+        codename: workflow.scheduled_step.codename,
+        state: "scheduled",
+      });
+    }
+  }
+
+  return steps;
+}
+
+/**
+ * Map the IDs of taxonomy terms, nested at any depth, to their codenames
+ */
+function collectTaxonomyTerms(
+  terms: ManagementTaxonomyTerm[],
+  codenames = new Map<string, string>(),
+): Map<string, string> {
+  for (const term of terms) {
+    codenames.set(term.id, term.codename);
+    collectTaxonomyTerms(term.terms || [], codenames);
+  }
+
+  return codenames;
+}
+
+/**
+ * Fetch the languages of the environment with their fallback languages
+ */
+export async function fetchManagementLanguages(config: AppConfig): Promise<EnvironmentLanguage[]> {
+  const languages = await managementGetAll<ManagementLanguage>(config, "languages", "languages");
+  const codenames = new Map(languages.map((lang) => [lang.id, lang.codename]));
+
+  return languages.map((lang) => {
+    const fallbackLanguage = lang.fallback_language && codenames.get(lang.fallback_language.id);
+    return {
+      id: lang.id,
+      name: lang.name,
+      codename: lang.codename,
+      // The default language falls back to itself
+      fallbackLanguage: fallbackLanguage !== lang.codename ? fallbackLanguage : undefined,
+      isActive: lang.is_active,
+      isDefault: lang.is_default,
+    };
+  });
+}
+
+/**
+ * Fetch all workflow steps of the environment with their publishing state
+ */
+export async function fetchWorkflowSteps(
+  config: AppConfig,
+): Promise<Map<string, WorkflowStepInfo>> {
+  return buildWorkflowStepMap(await managementGet<ManagementWorkflow[]>(config, "workflows"));
+}
+
+/**
+ * Resolve the workflow step a language variant is in
+ */
+export function getVariantWorkflowStep(
+  variant: ManagementVariant,
+  workflowSteps: Map<string, WorkflowStepInfo>,
+): WorkflowStepInfo | undefined {
+  const stepId = variant.workflow?.step_identifier.id || variant.workflow_step?.id;
+  return stepId ? workflowSteps.get(stepId) : undefined;
+}
+
+/**
+ * Fetch the latest version of every language variant of the configured types with its slug
+ * and workflow state, keeping the variants that match the filters. Every request runs through
+ * the request pool of the scan.
+ */
+export async function fetchManagementItemsWithSlugs(
+  context: ScanContext,
+  languages: string[],
+  filters: ScanFilters = {},
+): Promise<ContentItem[]> {
+  const { config, signal } = context;
+  const pool = getRequestPool(context);
+  const mapping = getSlugElementMapping(config);
+  const hierarchyElement = getHierarchyElement(config);
+  const typeCodenames = Object.keys(mapping);
+  const taxonomyElement = filters.taxonomy?.element;
+  const get = <T>(path: string) =>
+    pool.run(`management: ${path}`, () => managementGet<T>(config, path, null, signal));
+  const getAll = <T>(path: string, key: string) =>
+    managementGetAll<T>(config, path, key, signal, pool);
+
+  const [allLanguages, workflows, contentTypes, items, collections, taxonomies] = await Promise.all(
+    [
+      getAll<ManagementLanguage>("languages", "languages"),
+      get<ManagementWorkflow[]>("workflows"),
+      Promise.all(
+        typeCodenames.map((type) => get<ManagementContentType>(`types/codename/${type}`)),
+      ),
+      getAll<ManagementItem>("items", "items"),
+      get<{ collections: ManagementCollection[] }>("collections"),
+      // Taxonomy values are term IDs, resolved to codenames only when filtering by terms
+      taxonomyElement ? getAll<ManagementTaxonomyTerm>("taxonomies", "taxonomies") : [],
+    ],
+  );
+
+  const languageCodenames = new Map(allLanguages.map((lang) => [lang.id, lang.codename]));
+  const collectionCodenames = new Map(
+    collections.collections.map((collection) => [collection.id, collection.codename]),
+  );
+  const termCodenames = collectTaxonomyTerms(taxonomies);
+  const filtered = hasActiveFilters(filters);
+  const workflowSteps = buildWorkflowStepMap(workflows);
+  const typeCodenamesById = new Map(contentTypes.map((type) => [type.id, type.codename]));
+  const itemCodenames = new Map(items.map((item) => [item.id, item.codename]));
+  const slugItems = new Map(
+    items.filter((item) => typeCodenamesById.has(item.type.id)).map((item) => [item.id, item]),
+  );
+
+  // Variants of the types are listed side by side, bounded like all other requests
+  const variantsPerType = await Promise.all(
+    contentTypes.map((contentType) =>
+      getAll<ManagementVariant>(`types/codename/${contentType.codename}/variants`, "variants"),
+    ),
+  );
+
+  const result: ContentItem[] = [];
+  for (const [index, contentType] of contentTypes.entries()) {
+    const fields = mapping[contentType.codename] || [];
+
+    // Resolve the slug element IDs of the type to their codenames
+    const slugElementIds = new Map<string, string>();
+    for (const element of contentType.elements) {
+      if (element.codename && fields.includes(element.codename)) {
+        slugElementIds.set(element.id, element.codename);
+      }
+    }
+    const hierarchyElementId = contentType.elements.find(
+      (element) => hierarchyElement && element.codename === hierarchyElement,
+    )?.id;
+    const taxonomyElementId = contentType.elements.find(
+      (element) => taxonomyElement && element.codename === taxonomyElement,
+    )?.id;
+
+    for (const variant of variantsPerType[index]) {
+      const language = languageCodenames.get(variant.language.id);
+      const item = slugItems.get(variant.item.id);
+      if (!language || !item || !languages.includes(language)) continue;
+
+      const values = new Map<string, string>();
+      let linkedItems: string[] | undefined;
+      let taxonomyTerms: string[] | undefined;
+      for (const element of variant.elements) {
+        if (taxonomyElementId && element.element.id === taxonomyElementId) {
+          taxonomyTerms = ((element.value as Reference[]) || [])
+            .map((reference) => termCodenames.get(reference.id))
+            .filter((codename): codename is string => Boolean(codename));
+        }
+        if (hierarchyElementId && element.element.id === hierarchyElementId) {
+          // Linked items are referenced by ID in the Management API
+          linkedItems = ((element.value as Reference[]) || [])
+            .map((reference) => itemCodenames.get(reference.id))
+            .filter((codename): codename is string => Boolean(codename));
+        }
+        const field = slugElementIds.get(element.element.id);
+        if (field && typeof element.value === "string" && element.value.trim().length > 0) {
+          values.set(field, element.value.trim());
+        }
+      }
+
+      // First non-empty slug element wins, in the configured priority order
+      const slugField = fields.find((field) => values.has(field));
+      if (!slugField) continue;
+
+      const step = getVariantWorkflowStep(variant, workflowSteps);
+      const collection = item.collection && collectionCodenames.get(item.collection.id);
+      if (
+        filtered &&
+        !matchesFilters(
+          {
+            collection,
+            workflowStep: step?.codename,
+            lastModified: variant.last_modified,
+            taxonomyTerms,
+          },
+          filters,
+        )
+      ) {
+        continue;
+      }
+
+      result.push({
+        id: item.id,
+        name: item.name,
+        codename: item.codename,
+        type: contentType.codename,
+        language,
+        slug: values.get(slugField) as string,
+        slugField,
+        collection,
+        workflowStep: step?.name,
+        publishState: step?.state || "draft",
+        slugVersion: step?.state === "published" ? "published" : "latest",
+        source: "management",
+        linkedItems,
+      });
+    }
+  }
+
+  console.log(`📝 Management API: ${result.length} variants with slugs (including drafts)`);
+  return result;
+}
+
+/**
+ * Fetch a content type with its element definitions
+ */
+export function fetchContentType(config: AppConfig, type: string): Promise<ManagementContentType> {
+  return managementGet<ManagementContentType>(config, `types/codename/${type}`);
+}
+
+/**
+ * Fetch the latest version of a language variant
+ */
+export function fetchLanguageVariant(
+  config: AppConfig,
+  codename: string,
+  language: string,
+): Promise<ManagementVariant> {
+  return managementGet<ManagementVariant>(
+    config,
+    `items/codename/${codename}/variants/codename/${language}`,
+  );
+}
+
+/**
+ * Create a new draft version of a published language variant
+ */
+export async function createNewVersion(
+  config: AppConfig,
+  codename: string,
+  language: string,
+): Promise<void> {
+  await managementRequest<void>(
+    config,
+    "PUT",
+    `items/codename/${codename}/variants/codename/${language}/new-version`,
+  );
+}
+
+/**
+ * Update elements of a language variant; elements that are not listed keep their values
+ */
+export async function upsertVariantElements(
+  config: AppConfig,
+  codename: string,
+  language: string,
+  elements: ManagementElementValue[],
+): Promise<void> {
+  await managementRequest<void>(
+    config,
+    "PUT",
+    `items/codename/${codename}/variants/codename/${language}`,
+    { body: { elements } },
+  );
+}
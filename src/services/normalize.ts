@@ -0,0 +1,83 @@
+/**
+ * Slug normalization pipeline used to detect slugs that resolve to the same URL
+ */
+
+import type { NormalizationRule } from "../types";
+
+interface NormalizationStep {
+  label: string;
+  apply: (slug: string) => string;
+}
+
+// Steps in the order they are applied, regardless of the order they are configured in
+export const NORMALIZATION_STEPS: Record<NormalizationRule, NormalizationStep> = {
+  "trim-whitespace": {
+    label: "Trim whitespace",
+    apply: (slug) => slug.trim(),
+  },
+  "trim-slashes": {
+    label: "Trim leading/trailing slashes",
+    apply: (slug) => slug.replace(/^\/+|\/+$/g, ""),
+  },
+  nfc: {
+    label: "Unicode NFC",
+    apply: (slug) => slug.normalize("NFC"),
+  },
+  nfkd: {
+    label: "Unicode NFKD",
+    apply: (slug) => slug.normalize("NFKD"),
+  },
+  "fold-diacritics": {
+    label: "Fold diacritics",
+    apply: (slug) => slug.normalize("NFD").replace(/\p{M}/gu, ""),
+  },
+  lowercase: {
+    label: "Lowercase",
+    apply: (slug) => slug.toLowerCase(),
+  },
+};
+
+export const ALL_NORMALIZATION_RULES = Object.keys(NORMALIZATION_STEPS) as NormalizationRule[];
+
+/**
+ * Check whether a value is a known normalization rule
+ */
+export function isNormalizationRule(value: string): value is NormalizationRule {
+  return value in NORMALIZATION_STEPS;
+}
+
+/**
+ * Apply the enabled rules to a slug in pipeline order
+ */
+export function normalizeSlug(slug: string, rules: NormalizationRule[]): string {
+  return ALL_NORMALIZATION_RULES.filter((rule) => rules.includes(rule)).reduce(
+    (value, rule) => NORMALIZATION_STEPS[rule].apply(value),
+    slug,
+  );
+}
+
+/**
+ * Find the rules that made distinct raw slugs collide: starting from every enabled rule, a rule
+ * is left out when the slugs still collide without it, so rules that only work together (e.g.
+ * trimming slashes and lowercasing "About-Us" and "about-us/") are all credited
+ */
+export function explainCollision(
+  variants: string[],
+  rules: NormalizationRule[],
+): NormalizationRule[] {
+  const values = [...new Set(variants)];
+  if (values.length < 2) return [];
+
+  const collides = (applied: NormalizationRule[]) =>
+    new Set(values.map((value) => normalizeSlug(value, applied))).size === 1;
+
+  let responsible = ALL_NORMALIZATION_RULES.filter((rule) => rules.includes(rule));
+  for (const rule of [...responsible]) {
+    const without = responsible.filter((r) => r !== rule);
+    if (collides(without)) {
+      responsible = without;
+    }
+  }
+
+  return responsible;
+}
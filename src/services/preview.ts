@@ -0,0 +1,96 @@
+/**
+ * Comparison of the duplicate slugs in the published content with those in the latest versions
+ * read through the Preview API
+ */
+
+import type { DuplicateItem, DuplicateResult, PreviewComparison, ScanContext } from "../types";
+import { findDuplicateSlugs } from "./search";
+
+/**
+ * Identify a collision across both scans: its normalized slug, within its type in "per-type"
+ * mode, within its collection in "per-collection" scope and within its language space
+ */
+function collisionKey(duplicate: DuplicateItem, result: DuplicateResult): string {
+  const type = result.scanMode === "per-type" ? duplicate.types?.[0] || "" : "";
+  const collection =
+    result.collectionScope === "per-collection" ? duplicate.collections?.[0] || "" : "";
+  return `${collection}|${duplicate.languageSpace || ""}|${type}|${duplicate.slug}`;
+}
+
+/**
+ * Codenames of the items sharing a slug
+ */
+function collidingCodenames(duplicate: DuplicateItem): Set<string> {
+  return new Set(duplicate.items.map((item) => item.codename));
+}
+
+/**
+ * Scan with progress mapped to a share of the whole comparison
+ */
+function scanShare(
+  context: ScanContext,
+  languages: string[] | undefined,
+  offset: number,
+): Promise<DuplicateResult> {
+  const { onProgress } = context;
+  return findDuplicateSlugs(
+    {
+      ...context,
+      onProgress: onProgress
+        ? (progress) => onProgress({ ...progress, fraction: offset + progress.fraction / 2 })
+        : undefined,
+    },
+    languages,
+  );
+}
+
+/**
+ * Scan the published content and the latest versions, and list the collisions that appear or
+ * disappear once the pending changes go live
+ */
+export async function comparePublishedAndPreview(
+  publishedContext: ScanContext,
+  previewContext: ScanContext,
+  languages?: string[],
+): Promise<PreviewComparison> {
+  console.log("\n=== COMPARING PUBLISHED AND PREVIEW CONTENT ===");
+
+  // One scan after the other, so both stay within the request concurrency
+  const published = await scanShare(publishedContext, languages, 0);
+  const preview = published.error ? published : await scanShare(previewContext, languages, 0.5);
+  const error = published.error || preview.error;
+  if (error) {
+    return { published, preview, upcoming: [], resolved: [], unchanged: 0, error };
+  }
+
+  const publishedByKey = new Map(
+    published.duplicates.map((duplicate) => [collisionKey(duplicate, published), duplicate]),
+  );
+  const previewKeys = new Set(
+    preview.duplicates.map((duplicate) => collisionKey(duplicate, preview)),
+  );
+
+  // A collision is upcoming when it is new, or when pending changes add items to it
+  const upcoming = preview.duplicates.filter((duplicate) => {
+    const current = publishedByKey.get(collisionKey(duplicate, preview));
+    if (!current) return true;
+    const currentCodenames = collidingCodenames(current);
+    return [...collidingCodenames(duplicate)].some((codename) => !currentCodenames.has(codename));
+  });
+  const resolved = published.duplicates.filter(
+    (duplicate) => !previewKeys.has(collisionKey(duplicate, published)),
+  );
+
+  console.log(
+    `🔀 ${upcoming.length} upcoming collision(s), ${resolved.length} resolved by pending changes`,
+  );
+
+  return {
+    published,
+    preview,
+    upcoming,
+    resolved,
+    unchanged: preview.duplicates.length - upcoming.length,
+    incomplete: published.incomplete || preview.incomplete || undefined,
+  };
+}
@@ -0,0 +1,305 @@
+/**
+ * Redirect maps for changed slugs: the old URL of every changed slug redirects to the new one
+ */
+
+import { buildSlugUrl, getNormalizationRules } from "../config";
+import type {
+  AppConfig,
+  LiveSlug,
+  RedirectFormat,
+  RedirectIssue,
+  RedirectMap,
+  RedirectRule,
+  SlugChange,
+  UndoLogEntry,
+} from "../types";
+import { parseCsv } from "./export";
+import { normalizeSlug } from "./normalize";
+
+export const REDIRECT_FORMATS: RedirectFormat[] = ["netlify", "nginx", "apache", "json"];
+
+/**
+ * Parse a redirect format, falling back to "netlify" for unknown values
+ */
+export function parseRedirectFormat(value: string): RedirectFormat {
+  const format = value.trim();
+  if (REDIRECT_FORMATS.includes(format as RedirectFormat)) return format as RedirectFormat;
+
+  console.warn(`⚠️ Unknown redirect format "${format}", using "netlify"`);
+  return "netlify";
+}
+
+// Header names accepted for each column of an uploaded CSV file, our own exports included
+const CHANGE_COLUMNS: Record<keyof SlugChange, string[]> = {
+  oldSlug: ["old_slug", "old", "from", "previous_slug", "current_slug", "raw_slug"],
+  newSlug: ["new_slug", "new", "to", "suggested_slug"],
+  language: ["language", "lang"],
+  codename: ["codename"],
+};
+
+/**
+ * Turn the applied slug changes of the app into slug changes
+ */
+export function changesFromUndoLog(entries: UndoLogEntry[]): SlugChange[] {
+  return entries.map((entry) => ({
+    oldSlug: entry.previousSlug,
+    newSlug: entry.newSlug,
+    language: entry.language,
+    codename: entry.codename,
+  }));
+}
+
+/**
+ * Parse uploaded slug changes: a JSON list of changes (or of undo log entries), or a CSV file
+ * with old and new slug columns, e.g. the CSV export of a duplicate scan. A CSV file without a
+ * known header is read as "old,new,language" rows.
+ */
+export function parseSlugChanges(text: string): SlugChange[] {
+  const trimmed = text.trim();
+  if (!trimmed) return [];
+
+  return trimmed.startsWith("[") || trimmed.startsWith("{")
+    ? parseJsonChanges(trimmed)
+    : parseCsvChanges(trimmed);
+}
+
+/**
+ * Read slug changes from JSON, skipping entries without an old and a new slug
+ */
+function parseJsonChanges(text: string): SlugChange[] {
+  const parsed: unknown = JSON.parse(text);
+  const entries = Array.isArray(parsed)
+    ? parsed
+    : (parsed as { changes?: unknown; rules?: unknown }).changes;
+  if (!Array.isArray(entries)) {
+    throw new Error("Expected a list of slug changes");
+  }
+
+  return entries.flatMap((entry: Record<string, unknown>) => {
+    const oldSlug = entry.oldSlug ?? entry.previousSlug ?? entry.currentSlug;
+    const newSlug = entry.newSlug ?? entry.suggestedSlug;
+    if (typeof oldSlug !== "string" || typeof newSlug !== "string") return [];
+
+    return [
+      {
+        oldSlug,
+        newSlug,
+        language: typeof entry.language === "string" ? entry.language : undefined,
+        codename: typeof entry.codename === "string" ? entry.codename : undefined,
+      },
+    ];
+  });
+}
+
+/**
+ * Read slug changes from CSV, skipping rows without an old and a new slug
+ */
+function parseCsvChanges(text: string): SlugChange[] {
+  const rows = parseCsv(text);
+  const header = (rows[0] || []).map((column) => column.trim().toLowerCase());
+  const columnOf = (field: keyof SlugChange) =>
+    header.findIndex((column) => CHANGE_COLUMNS[field].includes(column));
+
+  const hasHeader = columnOf("oldSlug") >= 0 && columnOf("newSlug") >= 0;
+  const columns = hasHeader
+    ? {
+        oldSlug: columnOf("oldSlug"),
+        newSlug: columnOf("newSlug"),
+        language: columnOf("language"),
+        codename: columnOf("codename"),
+      }
+    : { oldSlug: 0, newSlug: 1, language: 2, codename: -1 };
+
+  return rows.slice(hasHeader ? 1 : 0).flatMap((row) => {
+    const value = (index: number) => (index >= 0 ? row[index]?.trim() || undefined : undefined);
+    const oldSlug = value(columns.oldSlug);
+    const newSlug = value(columns.newSlug);
+    if (!oldSlug || !newSlug) return [];
+
+    return [
+      { oldSlug, newSlug, language: value(columns.language), codename: value(columns.codename) },
+    ];
+  });
+}
+
+/**
+ * Build the redirect rules for the slug changes. Later changes of a URL win over earlier ones,
+ * chains (a → b → c) are flattened to their final target and loops are dropped; sources that
+ * are still the live slug of an item are reported, as the redirect would hide that page.
+ */
+export function buildRedirectMap(
+  changes: SlugChange[],
+  config: AppConfig,
+  liveSlugs: LiveSlug[] = [],
+): RedirectMap {
+  const normalization = getNormalizationRules(config);
+  const urlKey = (url: string) => normalizeSlug(url, normalization);
+  const issues: RedirectIssue[] = [];
+
+  // One rule per source URL
+  const bySource = new Map<string, RedirectRule>();
+  for (const change of changes) {
+    const rule: RedirectRule = {
+      from: buildSlugUrl(change.oldSlug, change.language, config),
+      to: buildSlugUrl(change.newSlug, change.language, config),
+      language: change.language,
+      codename: change.codename,
+    };
+    const source = urlKey(rule.from);
+    if (source === urlKey(rule.to)) continue;
+
+    const existing = bySource.get(source);
+    if (existing && urlKey(existing.to) !== urlKey(rule.to)) {
+      issues.push({
+        kind: "conflict",
+        severity: "warning",
+        from: rule.from,
+        message: `${rule.from} was changed to both ${existing.to} and ${rule.to}; the later change wins`,
+      });
+    }
+    bySource.set(source, rule);
+  }
+
+  const rules: RedirectRule[] = [];
+  const reportedLoops = new Set<string>();
+  for (const [source, rule] of bySource) {
+    const hops = [rule.from];
+    const visited = new Set([source]);
+    let target = rule.to;
+    let loop = false;
+
+    for (let next = bySource.get(urlKey(target)); next; next = bySource.get(urlKey(target))) {
+      hops.push(target);
+      if (visited.has(urlKey(target))) {
+        loop = true;
+        break;
+      }
+      visited.add(urlKey(target));
+      target = next.to;
+    }
+
+    if (loop) {
+      const cycle = [...visited].sort().join(" ");
+      if (!reportedLoops.has(cycle)) {
+        reportedLoops.add(cycle);
+        issues.push({
+          kind: "loop",
+          severity: "error",
+          from: rule.from,
+          message: `Redirect loop ${hops.join(" → ")}; these redirects are left out`,
+        });
+      }
+      continue;
+    }
+    if (hops.length > 1) {
+      issues.push({
+        kind: "chain",
+        severity: "warning",
+        from: rule.from,
+        message: `Redirect chain ${[...hops, target].join(" → ")} flattened to ${rule.from} → ${target}`,
+      });
+    }
+    rules.push({ ...rule, to: target });
+  }
+
+  issues.push(...findLiveSources(rules, liveSlugs, config, urlKey));
+  console.log(
+    `🔀 ${rules.length} redirect(s) from ${changes.length} slug change(s), ${issues.length} issue(s)`,
+  );
+  return { rules, issues };
+}
+
+/**
+ * Find the redirect sources that are still the published URL of a content item; slugs of drafts
+ * that were never published serve no page a redirect could hide
+ */
+function findLiveSources(
+  rules: RedirectRule[],
+  liveSlugs: LiveSlug[],
+  config: AppConfig,
+  urlKey: (url: string) => string,
+): RedirectIssue[] {
+  const holders = new Map<string, Set<string>>();
+  for (const live of liveSlugs) {
+    const key = urlKey(buildSlugUrl(live.slug, live.language, config));
+    holders.set(key, (holders.get(key) || new Set()).add(`${live.codename} (${live.language})`));
+  }
+
+  return rules.flatMap((rule) => {
+    const items = holders.get(urlKey(rule.from));
+    return items
+      ? [
+          {
+            kind: "live-source" as const,
+            severity: "warning" as const,
+            from: rule.from,
+            message: `${rule.from} is still the live slug of ${[...items].join(", ")}; the redirect would hide that page`,
+          },
+        ]
+      : [];
+  });
+}
+
+/**
+ * Quote a value for nginx and Apache configuration files
+ */
+function quote(value: string): string {
+  return `"${value.replace(/["\\]/g, "\\$&")}"`;
+}
+
+/**
+ * Escape a URL path for an anchored regular expression
+ */
+function escapeRegex(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Serialize a redirect map: Netlify _redirects, an nginx map, Apache .htaccess rules or JSON
+ */
+export function formatRedirectMap(map: RedirectMap, format: RedirectFormat): string {
+  const generatedAt = new Date().toISOString();
+  if (format === "json") {
+    return JSON.stringify({ generatedAt, ...map }, null, 2);
+  }
+
+  const header = `# Redirects for changed slugs, generated ${generatedAt}`;
+  if (format === "netlify") {
+    return [
+      header,
+      ...map.rules.map(
+        (rule) => `${rule.from.replace(/ /g, "%20")} ${rule.to.replace(/ /g, "%20")} 301`,
+      ),
+    ].join("\n");
+  }
+  if (format === "nginx") {
+    return [
+      header,
+      "# Include in the http block and add to the server block:",
+      "#   if ($slug_redirect) { return 301 $slug_redirect; }",
+      "map $uri $slug_redirect {",
+      ...map.rules.map((rule) => `    ${quote(rule.from)} ${quote(rule.to)};`),
+      "}",
+    ].join("\n");
+  }
+
+  return [
+    header,
+    ...map.rules.map(
+      (rule) => `RedirectMatch 301 ${quote(`^${escapeRegex(rule.from)}/?$`)} ${quote(rule.to)}`,
+    ),
+  ].join("\n");
+}
+
+/**
+ * File name a redirect map is usually deployed under
+ */
+export function redirectFileName(format: RedirectFormat): string {
+  const names: Record<RedirectFormat, string> = {
+    netlify: "_redirects",
+    nginx: "slug-redirects.conf",
+    apache: ".htaccess",
+    json: "redirects.json",
+  };
+  return names[format];
+}
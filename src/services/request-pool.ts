@@ -0,0 +1,159 @@
+/**
+ * Bounded concurrency pool for API requests, with retries of rate-limited requests and
+ * per-request timing
+ */
+
+import type { IRetryStrategyOptions } from "@kontent-ai/core-sdk";
+import { getRequestConcurrency } from "../config";
+import type { RequestPool, RequestTiming, ScanContext } from "../types";
+
+// Retries of rate-limited (429) and temporarily unavailable (503) responses
+const MAX_RETRIES = 5;
+const BASE_DELAY_MS = 1000;
+const MAX_DELAY_MS = 30_000;
+const RETRY_STATUS_CODES = [429, 503];
+
+/**
+ * Create a pool running at most `concurrency` requests at a time; queued requests are dropped
+ * once the signal aborts
+ */
+export function createRequestPool(concurrency: number, signal?: AbortSignal): RequestPool {
+  const timings: RequestTiming[] = [];
+  const queue: (() => void)[] = [];
+  let active = 0;
+
+  const acquire = () =>
+    new Promise<void>((resolve) => {
+      if (active < concurrency) {
+        active++;
+        resolve();
+      } else {
+        queue.push(resolve);
+      }
+    });
+
+  const release = () => {
+    const next = queue.shift();
+    if (next) {
+      next();
+    } else {
+      active--;
+    }
+  };
+
+  return {
+    timings,
+    run: async (label, task) => {
+      await acquire();
+      const startedAt = Date.now();
+      try {
+        if (signal?.aborted) {
+          throw new Error(`Request "${label}" cancelled`);
+        }
+        const result = await task();
+        timings.push({ label, startedAt, durationMs: Date.now() - startedAt, ok: true });
+        return result;
+      } catch (error) {
+        timings.push({ label, startedAt, durationMs: Date.now() - startedAt, ok: false });
+        throw error;
+      } finally {
+        release();
+      }
+    },
+  };
+}
+
+/**
+ * Get the request pool of a scan, or a new one for a request made outside of a scan
+ */
+export function getRequestPool(context: ScanContext): RequestPool {
+  return (
+    context.requestPool || createRequestPool(getRequestConcurrency(context.config), context.signal)
+  );
+}
+
+/**
+ * Exponential backoff with full jitter, so parallel requests do not retry in lockstep
+ */
+function getBackoffDelay(attempt: number): number {
+  return Math.random() * Math.min(BASE_DELAY_MS * 2 ** attempt, MAX_DELAY_MS);
+}
+
+/**
+ * Parse a Retry-After header given in seconds or as an HTTP date
+ */
+function parseRetryAfter(value: string | null): number | undefined {
+  if (!value) return undefined;
+
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) return seconds * 1000;
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(date - Date.now(), 0);
+}
+
+/**
+ * Wait for the given time, or until the signal aborts
+ */
+function wait(ms: number, signal?: AbortSignal | null): Promise<void> {
+  return new Promise((resolve) => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener(
+      "abort",
+      () => {
+        clearTimeout(timer);
+        resolve();
+      },
+      { once: true },
+    );
+  });
+}
+
+/**
+ * Fetch a URL, retrying rate-limited responses after the time given in Retry-After (or with
+ * exponential backoff when the header is missing)
+ */
+export async function fetchWithRetry(url: string, init: RequestInit = {}): Promise<Response> {
+  for (let attempt = 0; ; attempt++) {
+    const response = await fetch(url, init);
+    if (!RETRY_STATUS_CODES.includes(response.status) || attempt >= MAX_RETRIES) {
+      return response;
+    }
+
+    const delay = Math.min(
+      parseRetryAfter(response.headers.get("Retry-After")) ?? getBackoffDelay(attempt),
+      MAX_DELAY_MS,
+    );
+    console.warn(
+      `⏳ ${response.status} from ${new URL(url).pathname}, retrying in ${Math.round(delay)} ms (${attempt + 1}/${MAX_RETRIES})`,
+    );
+    await wait(delay, init.signal);
+  }
+}
+
+/**
+ * Retry strategy for the Delivery SDK, which honors Retry-After itself and backs off with
+ * jitter otherwise
+ */
+export function getDeliveryRetryStrategy(): IRetryStrategyOptions {
+  return { maxAttempts: MAX_RETRIES, deltaBackoffMs: BASE_DELAY_MS, addJitter: true };
+}
+
+/**
+ * Summarize request timings: the time spent in requests, the elapsed time and the slowest one
+ */
+export function summarizeRequestTimings(timings: RequestTiming[]) {
+  if (timings.length === 0) return null;
+
+  const start = Math.min(...timings.map((timing) => timing.startedAt));
+  const end = Math.max(...timings.map((timing) => timing.startedAt + timing.durationMs));
+  const slowest = timings.reduce((a, b) => (b.durationMs > a.durationMs ? b : a));
+
+  return {
+    requests: timings.length,
+    failed: timings.filter((timing) => !timing.ok).length,
+    totalMs: timings.reduce((sum, timing) => sum + timing.durationMs, 0),
+    elapsedMs: end - start,
+    slowest,
+  };
+}
@@ -0,0 +1,56 @@
+/**
+ * Reserved slugs and forbidden slug patterns, e.g. slugs that shadow a static route of the
+ * front end
+ */
+
+import type { NormalizationRule, SlugPatternRule } from "../types";
+import { normalizeSlug } from "./normalize";
+
+/**
+ * Find the first rule a normalized slug (or routed path) breaks
+ */
+export type SlugRuleMatcher = (path: string) => SlugPatternRule | undefined;
+
+/**
+ * Describe a rule for reports, e.g. 'prefix "wp-"' or "regex /^\d+$/"
+ */
+export function describeSlugRule(rule: SlugPatternRule): string {
+  return rule.match === "regex" ? `regex /${rule.pattern}/` : `${rule.match} "${rule.pattern}"`;
+}
+
+/**
+ * Create a matcher for the rules. Exact and prefix patterns are normalized like the slugs they
+ * are compared with; invalid regular expressions are skipped with a warning.
+ */
+export function createSlugRuleMatcher(
+  rules: SlugPatternRule[],
+  normalization: NormalizationRule[],
+): SlugRuleMatcher {
+  const tests = rules.flatMap((rule) => {
+    if (rule.match === "regex") {
+      try {
+        const regex = new RegExp(rule.pattern);
+        return [{ rule, test: (path: string) => regex.test(path) }];
+      } catch (error) {
+        console.warn(
+          `⚠️ Ignoring invalid forbidden slug pattern /${rule.pattern}/: ${error instanceof Error ? error.message : String(error)}`,
+        );
+        return [];
+      }
+    }
+
+    const pattern = normalizeSlug(rule.pattern, normalization);
+    if (!pattern) return [];
+    return [
+      {
+        rule,
+        test:
+          rule.match === "exact"
+            ? (path: string) => path === pattern
+            : (path: string) => path.startsWith(pattern),
+      },
+    ];
+  });
+
+  return (path) => tests.find(({ test }) => test(path))?.rule;
+}
@@ -0,0 +1,253 @@
+/**
+ * Bulk resolution of duplicate slugs: writes replacement slugs back through the Management API
+ */
+
+import type {
+  AppConfig,
+  DuplicateItem,
+  PublishState,
+  SlugFix,
+  SlugFixResult,
+  UndoLogEntry,
+} from "../types";
+import {
+  type ManagementContentType,
+  createNewVersion,
+  fetchContentType,
+  fetchLanguageVariant,
+  fetchWorkflowSteps,
+  getVariantWorkflowStep,
+  upsertVariantElements,
+} from "./management";
+
+/**
+ * One language variant of a duplicate group, with the replacement slug proposed for it
+ */
+export interface DuplicateVariant {
+  codename: string;
+  name: string;
+  type: string;
+  language: string;
+  slugField: string;
+  currentSlug: string;
+  publishStates?: PublishState[];
+  suggestedSlug?: string;
+  // Language whose variant is served through a fallback
+  fallbackFrom?: string;
+}
+
+export interface SlugFixPlan {
+  fixes: SlugFix[];
+  errors: string[];
+}
+
+export interface ApplySlugFixesResult {
+  results: SlugFixResult[];
+  undoLog: UndoLogEntry[];
+}
+
+/**
+ * Key of a language variant in the replacement map
+ */
+export function variantKey(codename: string, language: string): string {
+  return `${codename}|${language}`;
+}
+
+/**
+ * List every language variant of a duplicate group with its suggested replacement (if any)
+ */
+export function listDuplicateVariants(duplicate: DuplicateItem): DuplicateVariant[] {
+  return duplicate.items.flatMap((item) =>
+    (item.languages || [item.language]).map((language) => ({
+      codename: item.codename,
+      name: item.name,
+      type: item.type,
+      language,
+      slugField: item.slugField,
+      currentSlug: item.slugs?.[language] ?? item.slug ?? duplicate.slug,
+      publishStates: item.publishStates,
+      suggestedSlug: duplicate.suggestions?.find(
+        (suggestion) => suggestion.codename === item.codename && suggestion.language === language,
+      )?.suggestedSlug,
+      fallbackFrom: item.fallbacks?.[language],
+    })),
+  );
+}
+
+/**
+ * Plan the slug changes for a duplicate group: every variant except those of the chosen keeper
+ * gets the replacement from the map (by variant key), falling back to the suggestion
+ */
+export function planSlugFixes(
+  duplicate: DuplicateItem,
+  keeperCodename: string,
+  replacements: Record<string, string> = {},
+): SlugFixPlan {
+  const fixes: SlugFix[] = [];
+  const errors: string[] = [];
+  const planned = new Map<string, string>();
+
+  for (const variant of listDuplicateVariants(duplicate)) {
+    // Fallbacks have no variant to write to; they change with the variant they fall back to
+    if (variant.codename === keeperCodename || variant.fallbackFrom) continue;
+
+    const label = `${variant.name} (${variant.language})`;
+    const newSlug = (
+      replacements[variantKey(variant.codename, variant.language)] ??
+      variant.suggestedSlug ??
+      ""
+    ).trim();
+
+    if (!newSlug) {
+      errors.push(`${label}: no replacement slug`);
+      continue;
+    }
+    if (newSlug === variant.currentSlug || newSlug === duplicate.slug) {
+      errors.push(`${label}: "${newSlug}" is the duplicate slug itself`);
+      continue;
+    }
+
+    // Variants of one item may share a slug, different items may not
+    const plannedBy = planned.get(`${variant.language}|${newSlug}`);
+    if (plannedBy && plannedBy !== variant.codename) {
+      errors.push(`${label}: "${newSlug}" is also planned for ${plannedBy}`);
+      continue;
+    }
+    planned.set(`${variant.language}|${newSlug}`, variant.codename);
+
+    fixes.push({
+      codename: variant.codename,
+      name: variant.name,
+      type: variant.type,
+      language: variant.language,
+      slugField: variant.slugField,
+      currentSlug: variant.currentSlug,
+      newSlug,
+    });
+  }
+
+  return { fixes, errors };
+}
+
+/**
+ * Write the planned slugs one variant at a time. Each variant is re-read first and skipped if
+ * its slug changed since the scan; published variants get a new version before the update.
+ * A dry run performs the same checks without writing anything.
+ */
+export async function applySlugFixes(
+  config: AppConfig,
+  fixes: SlugFix[],
+  options: { dryRun?: boolean } = {},
+): Promise<ApplySlugFixesResult> {
+  if (!config.managementApiKey) {
+    return {
+      results: fixes.map((fix) => ({
+        fix,
+        status: "failed",
+        error: "Missing Management API key configuration.",
+      })),
+      undoLog: [],
+    };
+  }
+
+  const results: SlugFixResult[] = [];
+  const undoLog: UndoLogEntry[] = [];
+  const contentTypes = new Map<string, ManagementContentType>();
+
+  let workflowSteps: Awaited<ReturnType<typeof fetchWorkflowSteps>>;
+  try {
+    workflowSteps = await fetchWorkflowSteps(config);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return {
+      results: fixes.map((fix) => ({ fix, status: "failed", error: message })),
+      undoLog: [],
+    };
+  }
+
+  for (const fix of fixes) {
+    try {
+      if (!contentTypes.has(fix.type)) {
+        contentTypes.set(fix.type, await fetchContentType(config, fix.type));
+      }
+      const element = contentTypes
+        .get(fix.type)
+        ?.elements.find((candidate) => candidate.codename === fix.slugField);
+      if (!element) {
+        throw new Error(`Element "${fix.slugField}" not found in content type "${fix.type}"`);
+      }
+
+      const variant = await fetchLanguageVariant(config, fix.codename, fix.language);
+      const storedSlug = variant.elements.find((value) => value.element.id === element.id)?.value;
+      if (storedSlug !== fix.currentSlug) {
+        throw new Error(
+          `Slug changed since the scan (now "${String(storedSlug ?? "")}"); scan again before resolving`,
+        );
+      }
+
+      const step = getVariantWorkflowStep(variant, workflowSteps);
+      if (step?.state === "scheduled") {
+        throw new Error("Variant is scheduled for publishing; cancel the schedule first");
+      }
+      const published = step?.state === "published";
+
+      if (options.dryRun) {
+        results.push({ fix, status: "dry-run", newVersionCreated: published });
+        continue;
+      }
+
+      if (published) {
+        await createNewVersion(config, fix.codename, fix.language);
+      }
+      await upsertVariantElements(config, fix.codename, fix.language, [
+        {
+          element: { codename: fix.slugField },
+          value: fix.newSlug,
+          // Keep URL slug elements from regenerating the value from the item name
+          ...(element.type === "url_slug" ? { mode: "custom" as const } : {}),
+        },
+      ]);
+
+      results.push({ fix, status: "updated", newVersionCreated: published });
+      undoLog.push({
+        codename: fix.codename,
+        type: fix.type,
+        language: fix.language,
+        slugField: fix.slugField,
+        previousSlug: fix.currentSlug,
+        newSlug: fix.newSlug,
+        appliedAt: new Date().toISOString(),
+      });
+      console.log(`✏️ ${fix.codename} (${fix.language}): "${fix.currentSlug}" → "${fix.newSlug}"`);
+    } catch (error) {
+      console.error(`❌ Failed to update ${fix.codename} (${fix.language}):`, error);
+      results.push({
+        fix,
+        status: "failed",
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  return { results, undoLog };
+}
+
+/**
+ * Revert changes from an undo log by writing the previous slugs back (newest change first)
+ */
+export function undoSlugFixes(
+  config: AppConfig,
+  undoLog: UndoLogEntry[],
+): Promise<ApplySlugFixesResult> {
+  const fixes: SlugFix[] = [...undoLog].reverse().map((entry) => ({
+    codename: entry.codename,
+    name: entry.codename,
+    type: entry.type,
+    language: entry.language,
+    slugField: entry.slugField,
+    currentSlug: entry.newSlug,
+    newSlug: entry.previousSlug,
+  }));
+
+  return applySlugFixes(config, fixes);
+}
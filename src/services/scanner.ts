@@ -0,0 +1,106 @@
+/**
+ * Scanner factory binding the search services to an explicit configuration and delivery client
+ */
+
+import { type IDeliveryClient, createDeliveryClient } from "@kontent-ai/delivery-sdk";
+import { getContentMode } from "../config";
+import type {
+  ApiResult,
+  AppConfig,
+  ContentMode,
+  DuplicateResult,
+  EnvironmentLanguage,
+  PreviewComparison,
+  ScanContext,
+  ScanOptions,
+  SlugIndexStore,
+} from "../types";
+import {
+  type LanguageCheck,
+  checkConfiguredLanguages,
+  fetchEnvironmentLanguages,
+} from "./languages";
+import { comparePublishedAndPreview } from "./preview";
+import { getDeliveryRetryStrategy } from "./request-pool";
+import { findDuplicateSlugs, searchSpecificSlug } from "./search";
+
+export interface ScannerOptions {
+  // Client used for Delivery API requests, e.g. a stub in tests; created from the config by default
+  deliveryClient?: IDeliveryClient;
+  // Local index of published slugs for incremental scans
+  slugIndex?: SlugIndexStore;
+}
+
+export interface Scanner {
+  readonly config: AppConfig;
+  searchSpecificSlug(targetSlug: string): Promise<ApiResult>;
+  // Progress is reported to options.onProgress; aborting options.signal returns partial results;
+  // options.filters take the place of the configured filters
+  findDuplicateSlugs(languages?: string[], options?: ScanOptions): Promise<DuplicateResult>;
+  // Duplicates in the published content compared with the latest versions (needs a Preview API key)
+  comparePreview(languages?: string[], options?: ScanOptions): Promise<PreviewComparison>;
+  fetchLanguages(): Promise<EnvironmentLanguage[]>;
+  checkLanguages(): Promise<LanguageCheck>;
+  // Drop the local slug index, so the next scan rebuilds it from a full scan
+  clearIndex(): Promise<void>;
+}
+
+/**
+ * Create a scanner for one environment. Scanners share no state, so several environments can
+ * be scanned side by side.
+ */
+export function createScanner(config: AppConfig, options: ScannerOptions = {}): Scanner {
+  const createClient = (contentMode: ContentMode) =>
+    options.deliveryClient ||
+    createDeliveryClient({
+      environmentId: config.environmentId,
+      secureApiKey: config.deliveryApiKey || undefined,
+      previewApiKey: config.previewApiKey || undefined,
+      defaultQueryConfig: { usePreviewMode: contentMode === "preview" },
+      retryStrategy: getDeliveryRetryStrategy(),
+    });
+
+  const context: ScanContext = {
+    config,
+    deliveryClient: createClient(getContentMode(config)),
+    slugIndex: options.slugIndex,
+  };
+
+  // Both sides of the comparison read the Delivery API only, so drafts do not blur the difference
+  const compareContext = (contentMode: ContentMode): ScanContext => ({
+    config: { ...config, contentMode, managementApiKey: "" },
+    deliveryClient: createClient(contentMode),
+    slugIndex: options.slugIndex,
+  });
+
+  return {
+    config,
+    searchSpecificSlug: (targetSlug) => searchSpecificSlug(context, targetSlug),
+    findDuplicateSlugs: (languages, scanOptions = {}) =>
+      findDuplicateSlugs({ ...context, ...scanOptions }, languages),
+    comparePreview: async (languages, scanOptions = {}) => {
+      if (!config.previewApiKey) {
+        const error = "Missing Preview API key configuration.";
+        const empty: DuplicateResult = { duplicates: [], error };
+        return {
+          published: empty,
+          preview: empty,
+          upcoming: [],
+          resolved: [],
+          unchanged: 0,
+          error,
+        };
+      }
+      return comparePublishedAndPreview(
+        { ...compareContext("published"), ...scanOptions },
+        { ...compareContext("preview"), ...scanOptions },
+        languages,
+      );
+    },
+    fetchLanguages: () => fetchEnvironmentLanguages(context),
+    checkLanguages: () => checkConfiguredLanguages(context),
+    clearIndex: async () => {
+      await options.slugIndex?.clear(config.environmentId);
+    },
+  };
+}
@@ -2,22 +2,107 @@
  * Search service using the Delivery SDK for finding duplicate slugs
  */
 
-import { createDeliveryClient, type IContentItem, type Elements } from "@kontent-ai/delivery-sdk";
-import { appConfig, isConfigValid, getConfiguredLanguages } from "../config";
-import type { ApiResult, DuplicateResult } from "../types";
-import { searchAllItemsDeliveryApi, searchWithDeliveryApi, searchWithManagementApi } from "./api";
+import {
+  isConfigValid,
+  getConfiguredLanguages,
+  getConfiguredContentTypes,
+  getNormalizationRules,
+  getRoutePrefix,
+  getScanMode,
+  getSimilarityThreshold,
+  getContentMode,
+  getCollectionScope,
+  getUniquenessScope,
+  getLanguageSpace,
+  describeUniquenessScope,
+  getHierarchyElement,
+  getIncludeFallbacks,
+  getRequestConcurrency,
+  getScannedElements,
+  getSlugElementMapping,
+  getSlugPatternRules,
+} from "../config";
+import type {
+  ApiResult,
+  AppConfig,
+  CollectionScope,
+  ContentItem,
+  DuplicateResult,
+  NormalizationRule,
+  PathAncestor,
+  PublishState,
+  ReservedSlugViolation,
+  ScanContext,
+  RequestTiming,
+  ScanProgress,
+  ScanMode,
+  SimilarSlugCluster,
+  SlugElementMapping,
+  SlugVersion,
+} from "../types";
+import { buildRoutePath } from "../utils";
+import {
+  formatSDKItem,
+  getItemSlug,
+  type SlugItem,
+  searchAllItemsDeliveryApi,
+  searchWithDeliveryApi,
+  searchWithManagementApi,
+} from "./api";
+import { createPathResolver } from "./hierarchy";
+import { fetchManagementItemsWithSlugs } from "./management";
+import { createQueryCancelToken } from "./cancellation";
+import { groupFallbacks, logFallbacks } from "./fallbacks";
+import {
+  applyDeliveryFilters,
+  describeFilters,
+  getActiveFilters,
+  hasActiveFilters,
+} from "./filters";
+import { createRequestPool, getRequestPool, summarizeRequestTimings } from "./request-pool";
+import { explainCollision, normalizeSlug } from "./normalize";
+import { createSlugRuleMatcher, describeSlugRule, type SlugRuleMatcher } from "./reserved-slugs";
+import { findSimilarSlugClusters } from "./similarity";
+import { buildSlugHealthReport } from "./slug-lint";
+import { type IndexedItems, loadIndexedItems } from "./slug-index";
+import { chooseKeeper, createSlugRegistry, suggestSlugFixes } from "./suggestions";
+
+type SlugMapEntry = {
+  id?: string;
+  name: string;
+  codename: string;
+  type: string;
+  slug: string;
+  // Route prefix or parent path the slug is appended to (empty in "per-type" mode)
+  basePath: string;
+  path: string;
+  normalizedPath: string;
+  language: string;
+  slugField: string;
+  collection?: string;
+  workflowStep?: string;
+  publishState?: PublishState;
+  slugVersion?: SlugVersion;
+  ancestors?: PathAncestor[];
+  fallbackFrom?: string;
+};
 
-// Type for page content items
-type PageItem = IContentItem<{
-  url_slug?: Elements.UrlSlugElement;
-  slug?: Elements.UrlSlugElement;
-}>;
+/**
+ * An item a language serves through a fallback, with the requested language
+ */
+type FallbackSlugItem = {
+  item: SlugItem;
+  language: string;
+};
 
 /**
  * Search for items with specific slug using multiple approaches
  */
-export async function searchSpecificSlug(targetSlug: string): Promise<ApiResult> {
-  if (!isConfigValid()) {
+export async function searchSpecificSlug(
+  context: ScanContext,
+  targetSlug: string,
+): Promise<ApiResult> {
+  if (!isConfigValid(context.config)) {
     return {
       success: false,
       items: [],
@@ -28,13 +113,17 @@ export async function searchSpecificSlug(targetSlug: string): Promise<ApiResult>
 
   try {
     console.log(`\n=== SEARCHING FOR SLUG: "${targetSlug}" (ALL LANGUAGES) ===`);
-
-    // Try multiple approaches using the SDK
-    const results = {
-      deliveryApi: await searchWithDeliveryApi(targetSlug),
-      deliveryApiAllItems: await searchAllItemsDeliveryApi(targetSlug), 
-      managementApi: appConfig.managementApiKey ? await searchWithManagementApi(targetSlug) : null,
-    };
+    const pool = createRequestPool(getRequestConcurrency(context.config), context.signal);
+    const searchContext = { ...context, requestPool: pool };
+
+    // Try multiple approaches using the SDK; they run side by side and share the request pool
+    const [deliveryApi, deliveryApiAllItems, managementApi] = await Promise.all([
+      searchWithDeliveryApi(searchContext, targetSlug),
+      searchAllItemsDeliveryApi(searchContext, targetSlug),
+      context.config.managementApiKey ? searchWithManagementApi(searchContext, targetSlug) : null,
+    ]);
+    const results = { deliveryApi, deliveryApiAllItems, managementApi };
+    logRequestTimings(pool.timings);
 
     console.log("All search results:", results);
 
@@ -45,8 +134,13 @@ export async function searchSpecificSlug(targetSlug: string): Promise<ApiResult>
       ...(results.managementApi?.items || []),
     ];
 
-    // Remove duplicates based on codename+language
-    const uniqueItems = removeDuplicateItems(allItems);
+    // Merge variants found by several sources (codename+language+slug)
+    const uniqueItems = mergeVariants(allItems);
+    // Fallbacks inherit the slug of another variant, which is linted on its own
+    const slugHealth = buildSlugHealthReport(
+      uniqueItems.filter((item) => !item.fallbackFrom),
+      context.config.slugLint,
+    );
 
     return {
       success: true,
@@ -56,6 +150,10 @@ export async function searchSpecificSlug(targetSlug: string): Promise<ApiResult>
       deliveryApiAllItems: results.deliveryApiAllItems,
       managementApi: results.managementApi,
       totalItems: uniqueItems.length,
+      totalRequests: pool.timings.length,
+      timings: pool.timings,
+      slugHealth,
+      fallbacks: results.deliveryApi.fallbacks,
     } as ApiResult;
   } catch (err: unknown) {
     return {
@@ -71,28 +169,199 @@ export async function searchSpecificSlug(targetSlug: string): Promise<ApiResult>
  * Find duplicate slugs across all content items using SDK
  * @param languages Optional array of language codes to search. If not provided, uses configured languages or default language
  */
-export async function findDuplicateSlugs(languages?: string[]): Promise<DuplicateResult> {
-  if (!isConfigValid()) {
+export async function findDuplicateSlugs(
+  context: ScanContext,
+  languages?: string[],
+): Promise<DuplicateResult> {
+  const { config } = context;
+  if (!isConfigValid(config)) {
     return {
       duplicates: [],
       error: 'Missing Kontent.ai Project ID configuration. Click "Show Config" to verify settings.',
     };
   }
 
+  const pool = createRequestPool(getRequestConcurrency(config), context.signal);
+
   try {
-    const languagesToSearch = languages || getConfiguredLanguages();
-    console.log(`\n=== FINDING DUPLICATE SLUGS USING SDK (${languagesToSearch.join(", ")}) ===`);
+    const languagesToSearch = languages || getConfiguredLanguages(config);
+    const mapping = getSlugElementMapping(config);
+    console.log(
+      `\n=== FINDING DUPLICATE SLUGS USING SDK (${languagesToSearch.join(", ")}, ${getContentMode(config)} content) ===`,
+    );
+
+    // One step per language, one for the Management API and one for the comparison
+    const report = createProgressReporter(
+      context,
+      languagesToSearch.length + (config.managementApiKey ? 1 : 0) + 1,
+    );
+    let incomplete = false;
     
-    const allItems = await fetchAllPageItemsWithSlugs(languagesToSearch);
-    const slugMap = buildSlugMap(allItems);
-    const duplicates = findTrueDuplicates(slugMap);
+    const hierarchyElement = getHierarchyElement(config);
+    const contentMode = getContentMode(config);
+    const filters = getActiveFilters(context);
+    const filtered = hasActiveFilters(filters);
+    const collectionScope = getCollectionScope(config);
+    const uniquenessScope = getUniquenessScope(config);
+    const languageGroups =
+      uniquenessScope === "language-groups" ? config.languageGroups || [] : undefined;
+    console.log(
+      `🔎 Filters: ${describeFilters(filters)}; collections: ${collectionScope}; languages: ${describeUniquenessScope(uniquenessScope, languageGroups)}`,
+    );
+    if (filters.workflowSteps?.length && contentMode === "published") {
+      console.warn(
+        "⚠️ Published content has no workflow steps; the workflow step filter only applies to preview content and Management API drafts",
+      );
+    }
+    const fetchDeliveryItems = async (itemIds?: string[]) => {
+      const { items, fallbacks, complete } = await fetchAllPageItemsWithSlugs(
+        { ...context, requestPool: pool },
+        languagesToSearch,
+        itemIds,
+        report,
+      );
+      incomplete = incomplete || !complete;
+      return [
+        ...items.map((item) =>
+          formatSDKItem(item, item.system.language, mapping, hierarchyElement, contentMode),
+        ),
+        ...fallbacks.map(({ item, language }) =>
+          formatSDKItem(item, language, mapping, hierarchyElement, contentMode),
+        ),
+      ];
+    };
+
+    // With a local index only the items changed since the last scan are fetched
+    // The index tracks all published content, so preview and filtered scans always fetch
+    const slugIndex = contentMode === "published" && !filtered ? context.slugIndex : undefined;
+    if (slugIndex) {
+      report({ phase: "index", itemsSoFar: 0, message: "Loading the slug index" }, 0);
+    }
+    let indexed: IndexedItems | null = null;
+    let deliveryItems: ContentItem[] = [];
+    try {
+      indexed = slugIndex
+        ? await loadIndexedItems(context, slugIndex, languagesToSearch, fetchDeliveryItems)
+        : null;
+      deliveryItems = indexed ? indexed.items : await fetchDeliveryItems();
+    } catch (error) {
+      // Cancelled while syncing the index; the scan returns without published items
+      if (!context.signal?.aborted) throw error;
+    }
+
+    // Latest versions from the Management API also reveal collisions in unpublished drafts
+    let draftItems: ContentItem[] = [];
+    if (config.managementApiKey && !context.signal?.aborted) {
+      report(
+        {
+          phase: "management",
+          itemsSoFar: deliveryItems.length,
+          message: "Fetching drafts through the Management API",
+        },
+        languagesToSearch.length,
+      );
+      try {
+        draftItems = await fetchManagementItemsWithSlugs(
+          { ...context, requestPool: pool },
+          languagesToSearch,
+          filters,
+        );
+        report(
+          {
+            phase: "management",
+            itemsSoFar: deliveryItems.length + draftItems.length,
+            message: `Fetched ${draftItems.length} variants through the Management API`,
+          },
+          languagesToSearch.length,
+          1,
+        );
+      } catch (error) {
+        if (!context.signal?.aborted) throw error;
+      }
+    }
+    incomplete = incomplete || Boolean(context.signal?.aborted);
+
+    report(
+      {
+        phase: "analysis",
+        itemsSoFar: deliveryItems.length + draftItems.length,
+        message: "Comparing slugs",
+      },
+      languagesToSearch.length + (config.managementApiKey ? 1 : 0),
+    );
+    // Fallbacks are always reported; they only join the duplicate check with their inherited slug
+    // when included
+    const includeFallbacks = getIncludeFallbacks(config);
+    const fallbacks = groupFallbacks(deliveryItems);
+    logFallbacks(fallbacks);
+    const allItems = mergeVariants([
+      ...(includeFallbacks ? deliveryItems : deliveryItems.filter((item) => !item.fallbackFrom)),
+      ...draftItems,
+    ]);
+    const scanMode = getScanMode(config);
+    const normalization = getNormalizationRules(config);
+    const namespaceOf = createNamespaceResolver(config, collectionScope);
+    const slugMap = buildSlugMap(allItems, config, scanMode, normalization, namespaceOf);
+    const duplicates = findTrueDuplicates(slugMap, scanMode, normalization, namespaceOf);
+    const reservedSlugViolations = findReservedSlugViolations(
+      slugMap,
+      createSlugRuleMatcher(getSlugPatternRules(config), normalization),
+    );
+    // Fixed slugs must not land on a URL another content item uses
+    const keyFor = createKeyFor(scanMode, normalization, namespaceOf);
+    const slugHealth = buildSlugHealthReport(
+      Array.from(slugMap.values())
+        .flat()
+        .filter((entry) => !entry.fallbackFrom),
+      config.slugLint,
+      (entry, slug) =>
+        (slugMap.get(keyFor(entry, slug)) || []).some((item) => item.codename !== entry.codename),
+    );
+    const similarityThreshold = getSimilarityThreshold(config);
+    const similarClusters =
+      similarityThreshold > 0
+        ? findSimilarClusters(slugMap, scanMode, similarityThreshold, namespaceOf)
+        : [];
 
     logDuplicateResults(duplicates);
+    logReservedSlugViolations(reservedSlugViolations);
+    console.log(`Found ${similarClusters.length} clusters of similar slugs`);
+    logRequestTimings(pool.timings);
 
     return {
       duplicates,
+      languages: languagesToSearch,
+      scanMode,
+      contentMode,
+      collectionScope,
+      uniquenessScope,
+      languageGroups,
+      fallbacks,
+      includeFallbacks,
+      // Only published slugs are served; drafts and unpublished latest versions have no URL yet
+      liveSlugs: Array.from(slugMap.values())
+        .flat()
+        .filter((entry) => entry.slugVersion === "published")
+        .map(({ id, name, codename, type, slug, path, language }) => ({
+          id,
+          name,
+          codename,
+          type,
+          slug,
+          path,
+          language,
+        })),
+      filters: filtered ? filters : undefined,
+      normalization,
+      similarClusters,
+      reservedSlugViolations,
+      slugHealth,
       totalItems: allItems.length,
       uniqueSlugs: slugMap.size,
+      index: indexed?.status,
+      incomplete: incomplete || undefined,
+      totalRequests: pool.timings.length,
+      timings: pool.timings,
     };
   } catch (err: unknown) {
     console.error("Duplicate search error:", err);
@@ -106,15 +375,44 @@ export async function findDuplicateSlugs(languages?: string[]): Promise<Duplicat
 /**
  * Check if an item is properly translated and has content in the requested language
  */
-function isItemProperlyTranslated(item: PageItem, requestedLanguage: string): boolean {
-  // Check if the item's language matches the requested language
+function isItemProperlyTranslated(
+  item: SlugItem,
+  requestedLanguage: string,
+  mapping: SlugElementMapping,
+): boolean {
+  // Items in another language are served through a fallback (see isFallbackItem)
   if (item.system.language !== requestedLanguage) {
-    console.warn(`⚠️ Language mismatch: requested ${requestedLanguage}, got ${item.system.language} for ${item.system.codename}`);
     return false;
   }
 
-  // Check if it has a valid slug value
-  const hasSlug = Boolean(item.elements.url_slug?.value || item.elements.slug?.value);
+  return hasContentWithSlug(item, requestedLanguage, mapping);
+}
+
+/**
+ * Check if an item is served in the requested language through a language fallback, i.e. the
+ * Delivery API returned the variant of another language
+ */
+function isFallbackItem(
+  item: SlugItem,
+  requestedLanguage: string,
+  mapping: SlugElementMapping,
+): boolean {
+  return (
+    item.system.language !== requestedLanguage &&
+    hasContentWithSlug(item, requestedLanguage, mapping)
+  );
+}
+
+/**
+ * Check if an item has a name and a non-empty slug
+ */
+function hasContentWithSlug(
+  item: SlugItem,
+  requestedLanguage: string,
+  mapping: SlugElementMapping,
+): boolean {
+  // Check if it has a valid slug value in one of the configured slug elements
+  const hasSlug = Boolean(getItemSlug(item, mapping));
   if (!hasSlug) {
     return false;
   }
@@ -127,7 +425,7 @@ function isItemProperlyTranslated(item: PageItem, requestedLanguage: string): bo
   }
 
   // Additional check: verify the slug is not empty or just whitespace
-  const slugValue = item.elements.url_slug?.value || item.elements.slug?.value;
+  const slugValue = getItemSlug(item, mapping)?.value;
   if (!slugValue || slugValue.trim().length === 0) {
     return false;
   }
@@ -136,80 +434,222 @@ function isItemProperlyTranslated(item: PageItem, requestedLanguage: string): bo
 }
 
 /**
- * Fetch all page items with slugs across all languages
+ * Report scan progress as the share of the scan's steps that are done
  */
-async function fetchAllPageItemsWithSlugs(languages?: string[]): Promise<PageItem[]> {
-  const client = createDeliveryClient({
-    environmentId: appConfig.environmentId,
-    secureApiKey: appConfig.deliveryApiKey || undefined,
-  });
+type ProgressReporter = (
+  update: Omit<ScanProgress, "fraction">,
+  step: number,
+  stepFraction?: number,
+) => void;
+
+/**
+ * Create a progress reporter for a scan of the given number of steps. Languages are fetched
+ * side by side, so each step's share is tracked separately; the later phases run after all
+ * languages, so the steps before them count as done.
+ */
+function createProgressReporter(context: ScanContext, totalSteps: number): ProgressReporter {
+  const stepFractions: number[] = [];
+  return (update, step, stepFraction = 0) => {
+    if (update.phase === "management" || update.phase === "analysis") {
+      for (let earlier = 0; earlier < step; earlier++) stepFractions[earlier] = 1;
+    }
+    stepFractions[step] = Math.max(stepFractions[step] || 0, Math.min(stepFraction, 1));
+    const done = stepFractions.reduce((sum, fraction) => sum + (fraction || 0), 0);
+    context.onProgress?.({ ...update, fraction: Math.min(done / totalSteps, 1) });
+  };
+}
+
+/**
+ * Fetch all items of the configured content types with slugs across all languages, or only
+ * the items with the given IDs. Languages are fetched side by side through the request pool.
+ * A cancelled scan stops requesting and returns the items fetched so far as incomplete.
+ */
+async function fetchAllPageItemsWithSlugs(
+  context: ScanContext,
+  languages?: string[],
+  itemIds?: string[],
+  report?: ProgressReporter,
+): Promise<{ items: SlugItem[]; fallbacks: FallbackSlugItem[]; complete: boolean }> {
+  const { config, deliveryClient: client, signal } = context;
+  const mapping = getSlugElementMapping(config);
+  const cancelToken = createQueryCancelToken(signal);
+  const pool = getRequestPool(context);
 
   // Use provided languages or get configured languages
-  const languagesToSearch = languages || getConfiguredLanguages();
+  const languagesToSearch = languages || getConfiguredLanguages(config);
   console.log(`🌐 Languages to search: ${languagesToSearch.join(", ")}`);
 
-  const allItems: PageItem[] = [];
-  
-  for (const lang of languagesToSearch) {
-    console.log(`Fetching page items in language: ${lang}`);
+  const contentTypes = getConfiguredContentTypes(config);
+  const filters = getActiveFilters(context);
+  const contentMode = getContentMode(config);
+  let complete = true;
+  let itemsSoFar = 0;
+  const fallbacks: FallbackSlugItem[] = [];
+
+  const fetchLanguage = async (lang: string, step: number): Promise<SlugItem[]> => {
+    console.log(`Fetching ${contentTypes.join(", ")} items in language: ${lang}`);
     
-    const response = await client
-      .items<PageItem>()
-      .type('page')
-      .languageParameter(lang)
-      .elementsParameter(['url_slug', 'slug'])
-      .toAllPromise();
+    const query = applyDeliveryFilters(
+      client
+        .items<SlugItem>()
+        .types(contentTypes)
+        .languageParameter(lang)
+        .elementsParameter(getScannedElements(config))
+        .includeTotalCountParameter()
+        .queryConfig({ cancelToken }),
+      filters,
+      contentMode,
+    );
+
+    // Pages are collected as they arrive, so a cancelled scan keeps the ones fetched so far
+    const fetched: SlugItem[] = [];
+    let page = 0;
+    try {
+      await pool.run(`delivery: ${lang}${itemIds ? ` (${itemIds.length} changed items)` : ""}`, () =>
+        (itemIds ? query.inFilter("system.id", itemIds) : query).toAllPromise({
+          responseFetched: (response) => {
+            page++;
+            fetched.push(...response.data.items);
+            itemsSoFar += response.data.items.length;
+            const totalCount = response.data.pagination.totalCount;
+            report?.(
+              {
+                phase: "delivery",
+                language: lang,
+                page,
+                itemsSoFar,
+                message: `Fetched page ${page} in ${lang} (${fetched.length}${totalCount ? ` of ${totalCount}` : ""} items)`,
+              },
+              step,
+              totalCount ? fetched.length / totalCount : 0,
+            );
+          },
+        }),
+      );
+      report?.(
+        {
+          phase: "delivery",
+          language: lang,
+          page,
+          itemsSoFar,
+          message: `Fetched ${fetched.length} items in ${lang}`,
+        },
+        step,
+        1,
+      );
+    } catch (error) {
+      if (!signal?.aborted) throw error;
+      complete = false;
+    }
 
     // Filter items to only include properly translated content
-    const itemsWithSlugs = response.data.items.filter(item => 
-      isItemProperlyTranslated(item, lang)
+    const itemsWithSlugs = fetched.filter(item => 
+      isItemProperlyTranslated(item, lang, mapping)
     );
 
     // Additional logging for debugging
-    const totalItems = response.data.items.length;
+    const totalItems = fetched.length;
     const filteredItems = itemsWithSlugs.length;
     console.log(`Fetched ${totalItems} total items in ${lang}, ${filteredItems} properly translated with slugs`);
     
-    if (totalItems > filteredItems) {
-      console.log(`🛡️ Filtered out ${totalItems - filteredItems} items without proper translation in ${lang}`);
+    // Items in another language are served through a fallback, with that language's slug
+    const fallbackItems = fetched.filter((item) => isFallbackItem(item, lang, mapping));
+    fallbacks.push(...fallbackItems.map((item) => ({ item, language: lang })));
+    if (fallbackItems.length > 0) {
+      console.log(`🔁 ${fallbackItems.length} items in ${lang} are served through language fallbacks`);
     }
 
-    allItems.push(...itemsWithSlugs);
-  }
+    if (totalItems > filteredItems + fallbackItems.length) {
+      console.log(`🛡️ Filtered out ${totalItems - filteredItems - fallbackItems.length} items without proper translation in ${lang}`);
+    }
+
+    return itemsWithSlugs;
+  };
 
-  console.log(`Total page items with slugs: ${allItems.length}`);
-  return allItems;
+  // Results are kept in language order, whichever language finishes first
+  const itemsPerLanguage = await Promise.all(
+    languagesToSearch.map((lang, step) => fetchLanguage(lang, step)),
+  );
+  const allItems = itemsPerLanguage.flat();
+
+  console.log(`Total items with slugs: ${allItems.length}${complete ? "" : " (scan cancelled)"}`);
+  return { items: allItems, fallbacks, complete };
 }
 
 /**
- * Build a map of slugs to their associated items
+ * Log how long the requests of a scan took, and how much running them side by side saved
  */
-function buildSlugMap(items: PageItem[]): Map<string, Array<{
-  name: string;
-  codename: string;
-  language: string;
-  slugField: string;
-}>> {
-  const slugMap = new Map<string, Array<{
-    name: string;
-    codename: string;
-    language: string;
-    slugField: string;
-  }>>();
+function logRequestTimings(timings: RequestTiming[]): void {
+  const summary = summarizeRequestTimings(timings);
+  if (!summary) return;
+
+  console.log(
+    `⏱️ ${summary.requests} request(s) in ${summary.elapsedMs} ms (${summary.totalMs} ms if run one after another), slowest: ${summary.slowest.label} (${summary.slowest.durationMs} ms)`,
+  );
+  for (const timing of timings) {
+    console.log(`   ${timing.ok ? "✓" : "✗"} ${timing.label}: ${timing.durationMs} ms`);
+  }
+}
+
+/**
+ * Build a map of normalized slugs to their associated items.
+ * In "per-type" mode every content type is its own namespace; in "cross-type" mode all types
+ * share one URL space and are keyed by their routed path (route prefix + slug); in
+ * "hierarchical" mode they are keyed by the path composed from their ancestors' slugs.
+ * Collections and languages with URL spaces of their own are namespaces as well.
+ */
+function buildSlugMap(
+  items: ContentItem[],
+  config: AppConfig,
+  scanMode: ScanMode,
+  normalization: NormalizationRule[],
+  namespaceOf: NamespaceResolver,
+): Map<string, SlugMapEntry[]> {
+  const slugMap = new Map<string, SlugMapEntry[]>();
+  const resolvePath =
+    scanMode === "hierarchical"
+      ? createPathResolver(items, config.hierarchyRelation || "subpages", (type) =>
+          getRoutePrefix(type, config),
+        )
+      : undefined;
 
   for (const item of items) {
-    const slug = item.elements.url_slug?.value || item.elements.slug?.value;
+    const slug = item.slug;
     if (!slug) continue;
 
-    if (!slugMap.has(slug)) {
-      slugMap.set(slug, []);
+    const hierarchicalPath = resolvePath?.(item);
+    if (hierarchicalPath?.cycle) {
+      console.warn(`⚠️ Parent pages of ${item.codename} (${item.language}) form a cycle`);
+    }
+
+    const basePath =
+      hierarchicalPath?.parentPath ??
+      (scanMode === "cross-type" ? getRoutePrefix(item.type, config) : "");
+    const path = composePath(scanMode, basePath, slug);
+    const normalizedPath = normalizeSlug(path, normalization);
+    const key = slugMapKey(scanMode, item.type, normalizedPath, namespaceOf(item));
+
+    if (!slugMap.has(key)) {
+      slugMap.set(key, []);
     }
     
-    slugMap.get(slug)?.push({
-      name: item.system.name || "Unknown",
-      codename: item.system.codename || "unknown",
-      language: item.system.language || "unknown",
-      slugField: item.elements.url_slug?.value ? "url_slug" : "slug",
+    slugMap.get(key)?.push({
+      id: item.id,
+      name: item.name || "Unknown",
+      codename: item.codename || "unknown",
+      type: item.type,
+      slug,
+      basePath,
+      path,
+      normalizedPath,
+      language: item.language || "unknown",
+      slugField: item.slugField,
+      collection: item.collection,
+      workflowStep: item.workflowStep,
+      publishState: item.publishState,
+      slugVersion: item.slugVersion,
+      ancestors: hierarchicalPath?.ancestors,
+      fallbackFrom: item.fallbackFrom,
     });
   }
 
@@ -217,34 +657,193 @@ function buildSlugMap(items: PageItem[]): Map<string, Array<{
 }
 
 /**
- * Find true duplicates from slug map
+ * Compose the path of a slug under its base path; in "per-type" mode the slug is the path
  */
-function findTrueDuplicates(slugMap: Map<string, Array<{
-  name: string;
-  codename: string;
-  language: string;
-  slugField: string;
-}>>) {
+function composePath(scanMode: ScanMode, basePath: string, slug: string): string {
+  return scanMode === "per-type" ? slug : buildRoutePath(basePath, slug);
+}
+
+/**
+ * Collection namespace of an item: its collection in "per-collection" scope, none otherwise
+ */
+function scopedCollection(
+  collectionScope: CollectionScope,
+  collection: string | undefined,
+): string | undefined {
+  return collectionScope === "per-collection" ? collection || "" : undefined;
+}
+
+/**
+ * URL space of an item: its collection in "per-collection" scope and its language space
+ * outside "global" uniqueness scope
+ */
+interface UrlSpace {
+  collection?: string;
+  languageSpace?: string;
+}
+
+type NamespaceResolver = (item: { collection?: string; language?: string }) => UrlSpace;
+
+/**
+ * Create the resolver of the URL spaces slugs are unique in
+ */
+function createNamespaceResolver(
+  config: AppConfig,
+  collectionScope: CollectionScope,
+): NamespaceResolver {
+  return (item) => ({
+    collection: scopedCollection(collectionScope, item.collection),
+    languageSpace: getLanguageSpace(item.language || "unknown", config),
+  });
+}
+
+/**
+ * Parts of a URL space that namespace it, e.g. ["brand_a", "en+en-gb"]
+ */
+function urlSpaceParts(space: UrlSpace): string[] {
+  return [space.collection, space.languageSpace].filter(
+    (part): part is string => part !== undefined,
+  );
+}
+
+/**
+ * Key of a normalized path in the slug map: namespaced by content type in "per-type" mode and
+ * by the item's URL space
+ */
+function slugMapKey(
+  scanMode: ScanMode,
+  type: string,
+  normalizedPath: string,
+  space: UrlSpace,
+): string {
+  const key = scanMode === "per-type" ? `${type}:${normalizedPath}` : normalizedPath;
+  const namespace = urlSpaceParts(space);
+  return namespace.length === 0 ? key : `${namespace.join("|")}|${key}`;
+}
+
+/**
+ * Key a slug would have in the slug map if the entry used it instead of its current slug
+ */
+function createKeyFor(
+  scanMode: ScanMode,
+  normalization: NormalizationRule[],
+  namespaceOf: NamespaceResolver,
+) {
+  return (entry: SlugMapEntry, slug: string) =>
+    slugMapKey(
+      scanMode,
+      entry.type,
+      normalizeSlug(composePath(scanMode, entry.basePath, slug), normalization),
+      namespaceOf(entry),
+    );
+}
+
+/**
+ * Find true duplicates from slug map, with a replacement slug suggested for all but one item
+ */
+function findTrueDuplicates(
+  slugMap: Map<string, SlugMapEntry[]>,
+  scanMode: ScanMode,
+  normalization: NormalizationRule[],
+  namespaceOf: NamespaceResolver,
+) {
+  // Suggestions are checked against every slug in the map, including earlier suggestions
+  const registry = createSlugRegistry(
+    new Map(
+      Array.from(slugMap.entries()).map(([key, items]) => [
+        key,
+        new Set(items.map((item) => item.codename)),
+      ]),
+    ),
+  );
+  const keyFor = createKeyFor(scanMode, normalization, namespaceOf);
+
   return Array.from(slugMap.entries())
     .filter(([, items]) => {
       const uniqueCodenames = new Set(items.map(item => item.codename));
       return uniqueCodenames.size > 1;
     })
-    .map(([slug, items]) => ({
-      slug,
-      items: groupItemsByCodename(items),
-    }));
+    .map(([, items]) => {
+      const types = uniqueValues(items.map((item) => item.type));
+      const collections = uniqueValues(items.map((item) => item.collection));
+      const variants = uniqueValues(items.map((item) => item.path));
+      const keeper = chooseKeeper(items);
+      return {
+        slug: normalizeSlug(items[0].path, normalization),
+        items: groupItemsByCodename(items),
+        types,
+        crossType: types.length > 1,
+        collections,
+        crossCollection: collections.length > 1,
+        languageSpace: namespaceOf(items[0]).languageSpace,
+        variants,
+        collisionRules: explainCollision(variants, normalization),
+        keeper,
+        suggestions: suggestSlugFixes(items, keeper, types.length > 1, keyFor, registry),
+      };
+    });
+}
+
+/**
+ * Find the slugs that are reserved or match a forbidden pattern. Rules are checked against the
+ * routed path, so a reserved "api" is only reported where the page is served at "/api".
+ */
+function findReservedSlugViolations(
+  slugMap: Map<string, SlugMapEntry[]>,
+  matchRule: SlugRuleMatcher,
+): ReservedSlugViolation[] {
+  return Array.from(slugMap.values()).flatMap((items) => {
+    const rule = matchRule(items[0].normalizedPath);
+    return rule ? [{ slug: items[0].normalizedPath, rule, items: groupItemsByCodename(items) }] : [];
+  });
+}
+
+/**
+ * Cluster near-duplicate slugs within each URL namespace (per type, collection and/or language
+ * space, or one shared namespace)
+ */
+function findSimilarClusters(
+  slugMap: Map<string, SlugMapEntry[]>,
+  scanMode: ScanMode,
+  threshold: number,
+  namespaceOf: NamespaceResolver,
+): SimilarSlugCluster[] {
+  const namespaces = new Map<string, Map<string, Set<string>>>();
+
+  for (const items of slugMap.values()) {
+    const namespace = [
+      ...urlSpaceParts(namespaceOf(items[0])),
+      scanMode === "per-type" ? items[0].type : undefined,
+    ]
+      .filter((part) => part)
+      .join("/");
+    if (!namespaces.has(namespace)) {
+      namespaces.set(namespace, new Map());
+    }
+
+    const codenames = new Set(items.map((item) => item.codename));
+    namespaces.get(namespace)?.set(items[0].normalizedPath, codenames);
+  }
+
+  return Array.from(namespaces.entries()).flatMap(([namespace, slugs]) =>
+    findSimilarSlugClusters([...slugs.keys()], threshold, namespace || undefined)
+      // Slugs of a single content item (e.g. its language variants) are not competing pages
+      .filter(
+        (cluster) => new Set(cluster.slugs.flatMap((slug) => [...(slugs.get(slug) || [])])).size > 1,
+      )
+      .map((cluster) => ({
+        ...cluster,
+        codenames: Object.fromEntries(
+          cluster.slugs.map((slug) => [slug, [...(slugs.get(slug) || [])]]),
+        ),
+      })),
+  );
 }
 
 /**
  * Group items by codename for better display
  */
-function groupItemsByCodename(items: Array<{
-  name: string;
-  codename: string;
-  language: string;
-  slugField: string;
-}>) {
+function groupItemsByCodename(items: SlugMapEntry[]) {
   const grouped = items.reduce((acc, item) => {
     if (!acc[item.codename]) {
       acc[item.codename] = [];
@@ -254,34 +853,91 @@ function groupItemsByCodename(items: Array<{
   }, {} as Record<string, typeof items>);
 
   return Object.entries(grouped).map(([codename, languageItems]) => ({
+    id: languageItems.find((item) => item.id)?.id,
     name: languageItems[0].name,
     codename,
-    language: languageItems.map(item => item.language).join(", "),
-    slugField: languageItems[0].slugField as "url_slug" | "slug",
+    type: languageItems[0].type,
+    slug: languageItems[0].slug,
+    language: uniqueValues(languageItems.map((item) => item.language)).join(", "),
+    languages: uniqueValues(languageItems.map((item) => item.language)),
+    slugField: languageItems[0].slugField,
+    collection: languageItems[0].collection,
+    workflowSteps: uniqueValues(languageItems.map((item) => item.workflowStep)),
+    publishStates: uniqueValues(languageItems.map((item) => item.publishState)),
+    slugVersions: uniqueValues(languageItems.map((item) => item.slugVersion)),
+    ancestors: languageItems[0].ancestors,
+    slugs: Object.fromEntries(languageItems.map((item) => [item.language, item.slug])),
+    fallbacks: languageItems.some((item) => item.fallbackFrom)
+      ? Object.fromEntries(
+          languageItems.flatMap((item) =>
+            item.fallbackFrom ? [[item.language, item.fallbackFrom]] : [],
+          ),
+        )
+      : undefined,
   }));
 }
 
+/**
+ * Collect the distinct defined values of a list
+ */
+function uniqueValues<T>(values: (T | undefined)[]): T[] {
+  return [...new Set(values.filter((value): value is T => value !== undefined))];
+}
+
 /**
  * Log duplicate results for debugging
  */
 function logDuplicateResults(duplicates: ReturnType<typeof findTrueDuplicates>): void {
   console.log(`Found ${duplicates.length} TRUE duplicate slugs`);
   for (const d of duplicates) {
-    console.log(`- Slug "${d.slug}": ${d.items.length} different content items`);
+    console.log(`- Slug "${d.slug}": ${d.items.length} different content items${d.crossType ? ` across types ${d.types.join(", ")}` : ""}`);
+    if (d.collisionRules.length > 0) {
+      console.log(`  Variants ${d.variants.join(" | ")} collide after: ${d.collisionRules.join(", ")}`);
+    }
     for (const item of d.items) {
-      console.log(`  * ${item.name} (${item.codename}) - Languages: ${item.language}`);
+      console.log(`  * ${item.name} (${item.codename}, ${item.type}) - Languages: ${item.language}`);
     }
   }
 }
 
 /**
- * Remove duplicate items based on codename+language combination
+ * Log reserved slug violations for debugging
  */
-function removeDuplicateItems<T extends { codename: string; language: string }>(items: T[]): T[] {
-  return items.filter(
-    (item, index, self) =>
-      index === self.findIndex((i) => 
-        i.codename === item.codename && i.language === item.language
-      ),
-  );
+function logReservedSlugViolations(violations: ReservedSlugViolation[]): void {
+  console.log(`Found ${violations.length} slugs breaking reserved slug rules`);
+  for (const violation of violations) {
+    console.log(`- 🚫 "${violation.slug}" (${describeSlugRule(violation.rule)}): ${violation.items.map((item) => `${item.codename} [${item.language}]`).join(", ")}`);
+  }
+}
+
+/**
+ * Merge variants reported by several sources based on codename+language+slug combination.
+ * A published Delivery API variant keeps its published state, while the Management API
+ * contributes the workflow step of the latest version.
+ */
+function mergeVariants(items: ContentItem[]): ContentItem[] {
+  const merged = new Map<string, ContentItem>();
+
+  for (const item of items) {
+    const key = `${item.codename}|${item.language}|${item.slug}`;
+    const existing = merged.get(key);
+    if (!existing) {
+      merged.set(key, { ...item });
+      continue;
+    }
+
+    existing.id = existing.id || item.id;
+    existing.collection = existing.collection || item.collection;
+    // A variant of its own (e.g. an unpublished draft) does not make a fallback any less served
+    existing.fallbackFrom = existing.fallbackFrom || item.fallbackFrom;
+    existing.workflowStep = item.workflowStep || existing.workflowStep;
+    if (existing.publishState !== "published") {
+      existing.publishState = item.publishState || existing.publishState;
+    }
+    if (existing.slugVersion !== "published") {
+      existing.slugVersion = item.slugVersion || existing.slugVersion;
+    }
+  }
+
+  return Array.from(merged.values());
 }
\ No newline at end of file
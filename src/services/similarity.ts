@@ -0,0 +1,289 @@
+/**
+ * Near-duplicate slug detection using edit distance and token similarity
+ */
+
+import type { SimilarSlugCluster, SimilarSlugPair } from "../types";
+
+// Slugs per cluster; further similar slugs start clusters of their own
+const MAX_CLUSTER_SIZE = 25;
+
+/**
+ * Split a slug into its word tokens
+ */
+export function tokenizeSlug(slug: string): string[] {
+  return slug.split(/[-_/.\s]+/).filter((token) => token.length > 0);
+}
+
+/**
+ * Levenshtein distance between two strings, giving up as soon as it exceeds maxDistance
+ * (returns maxDistance + 1 in that case)
+ */
+export function boundedLevenshtein(a: string, b: string, maxDistance: number): number {
+  if (Math.abs(a.length - b.length) > maxDistance) return maxDistance + 1;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      rowMin = Math.min(rowMin, current[j]);
+    }
+    if (rowMin > maxDistance) return maxDistance + 1;
+    previous = current;
+  }
+
+  return previous[b.length];
+}
+
+/**
+ * Token similarity of two slugs: 1 when one slug only adds a single word to the other
+ * ("contact" vs "contact-us"), otherwise the Jaccard index of their token sets
+ */
+export function tokenSimilarity(a: string[], b: string[]): number {
+  const setA = new Set(a);
+  const setB = new Set(b);
+  if (setA.size === 0 || setB.size === 0) return 0;
+
+  const shared = [...setB].filter((token) => setA.has(token)).length;
+  const smaller = Math.min(setA.size, setB.size);
+  const larger = Math.max(setA.size, setB.size);
+  if (shared === smaller && larger - smaller <= 1) return 1;
+
+  return shared / (setA.size + setB.size - shared);
+}
+
+/**
+ * Most edits a slug pair whose longer slug has the given length may differ by and still reach
+ * the threshold
+ */
+function maxEditDistance(length: number, threshold: number): number {
+  return Math.floor((1 - threshold) * length);
+}
+
+/**
+ * Score a slug pair; returns undefined when neither measure reaches the threshold
+ */
+export function compareSlugs(a: string, b: string, threshold: number): SimilarSlugPair | undefined {
+  const maxLength = Math.max(a.length, b.length);
+  const maxDistance = maxEditDistance(maxLength, threshold);
+  const distance = boundedLevenshtein(a, b, maxDistance);
+  const editScore = distance <= maxDistance ? 1 - distance / maxLength : 0;
+  const tokenScore = tokenSimilarity(tokenizeSlug(a), tokenizeSlug(b));
+
+  if (editScore < threshold && tokenScore < threshold) return undefined;
+
+  return editScore >= tokenScore
+    ? { a, b, score: editScore, reason: "edit-distance", distance }
+    : { a, b, score: tokenScore, reason: "token-overlap" };
+}
+
+/**
+ * The token set of a slug without one of its words, used as blocking keys: a slug adding a
+ * single word to another holds the other's token set as one of them
+ */
+function tokenDeletionKeys(tokens: string[]): string[] {
+  if (tokens.length < 2) return [];
+  return tokens.map((_, i) => tokens.filter((__, j) => j !== i).join(" "));
+}
+
+/**
+ * Start offsets of the maxDistance + 1 segments a slug of the given length is cut into, plus
+ * its length. A slug within maxDistance edits keeps at least one segment unchanged, since every
+ * edit touches only one of them.
+ */
+function segmentOffsets(length: number, maxDistance: number): number[] {
+  const parts = maxDistance + 1;
+  return Array.from({ length: parts + 1 }, (_, i) => Math.floor((i * length) / parts));
+}
+
+/**
+ * Collect candidate pairs instead of comparing every slug with every other slug, without
+ * missing a pair that reaches the threshold:
+ * - edit distance: each slug is cut into segments as the longer slug of a pair; a shorter or
+ *   equally long slug within the allowed edits holds one of them, shifted by no more than the
+ *   edits before it
+ * - token overlap: slugs whose token sets reach the Jaccard threshold share one of their
+ *   rarest tokens (prefix filtering), and a slug adding a single word to another holds the
+ *   other's token set once that word is dropped
+ */
+function collectCandidatePairs(slugs: string[], threshold: number): Array<[number, number]> {
+  const seen = new Set<number>();
+  const pairs: Array<[number, number]> = [];
+  const addPair = (i: number, j: number) => {
+    if (i === j) return;
+    const key = Math.min(i, j) * slugs.length + Math.max(i, j);
+    if (seen.has(key)) return;
+    seen.add(key);
+    pairs.push([i, j]);
+  };
+  const addToBucket = (buckets: Map<string, number[]>, key: string, index: number) => {
+    const bucket = buckets.get(key);
+    if (bucket) {
+      bucket.push(index);
+    } else {
+      buckets.set(key, [index]);
+    }
+  };
+
+  // Edit distance: index the segments of every slug by its length
+  const segments = new Map<string, number[]>();
+  const lengths = new Set<number>();
+  for (const [index, slug] of slugs.entries()) {
+    const offsets = segmentOffsets(slug.length, maxEditDistance(slug.length, threshold));
+    for (let i = 0; i < offsets.length - 1; i++) {
+      addToBucket(segments, `${slug.length}:${i}:${slug.slice(offsets[i], offsets[i + 1])}`, index);
+    }
+    lengths.add(slug.length);
+  }
+
+  const sortedLengths = [...lengths].sort((a, b) => a - b);
+  for (const [index, slug] of slugs.entries()) {
+    for (const length of sortedLengths) {
+      if (length < slug.length) continue;
+      const maxDistance = maxEditDistance(length, threshold);
+      const lengthDifference = length - slug.length;
+      if (lengthDifference > maxDistance) continue;
+
+      const offsets = segmentOffsets(length, maxDistance);
+      for (let i = 0; i < offsets.length - 1; i++) {
+        const segmentLength = offsets[i + 1] - offsets[i];
+        // Shifts bounded by the segments before and after it, as in PassJoin
+        const minShift = Math.max(-i, -lengthDifference - (maxDistance - i));
+        const maxShift = Math.min(i, -lengthDifference + (maxDistance - i));
+        for (let shift = minShift; shift <= maxShift; shift++) {
+          const start = offsets[i] + shift;
+          if (start < 0 || start + segmentLength > slug.length) continue;
+
+          const key = `${length}:${i}:${slug.slice(start, start + segmentLength)}`;
+          for (const other of segments.get(key) || []) addPair(index, other);
+        }
+      }
+    }
+  }
+
+  // Token overlap: rarest tokens first, so prefixes rarely share common words
+  const tokenSets = slugs.map((slug) => [...new Set(tokenizeSlug(slug))]);
+  const frequency = new Map<string, number>();
+  for (const tokens of tokenSets) {
+    for (const token of tokens) frequency.set(token, (frequency.get(token) || 0) + 1);
+  }
+
+  const prefixes = new Map<string, number[]>();
+  const tokenKeys = new Map<string, { exact: number[]; derived: number[] }>();
+  for (const [index, tokens] of tokenSets.entries()) {
+    const byRarity = [...tokens].sort(
+      (a, b) => (frequency.get(a) || 0) - (frequency.get(b) || 0) || a.localeCompare(b),
+    );
+    // Sets reaching the threshold share one of their first n - ceil(threshold * n) + 1 tokens;
+    // the epsilon keeps floating point error from shortening the prefix
+    const prefixLength = byRarity.length - Math.ceil(threshold * byRarity.length - 1e-9) + 1;
+    for (const token of byRarity.slice(0, prefixLength)) {
+      addToBucket(prefixes, token, index);
+    }
+
+    const sorted = [...tokens].sort();
+    const keys = [
+      { key: sorted.join(" "), exact: true },
+      ...tokenDeletionKeys(sorted).map((key) => ({ key, exact: false })),
+    ];
+    for (const { key, exact } of keys) {
+      const bucket = tokenKeys.get(key) || { exact: [], derived: [] };
+      tokenKeys.set(key, bucket);
+      (exact ? bucket.exact : bucket.derived).push(index);
+    }
+  }
+
+  for (const bucket of prefixes.values()) {
+    for (let i = 0; i < bucket.length; i++) {
+      for (let j = i + 1; j < bucket.length; j++) addPair(bucket[i], bucket[j]);
+    }
+  }
+  for (const { exact, derived } of tokenKeys.values()) {
+    for (let i = 0; i < exact.length; i++) {
+      for (let j = i + 1; j < exact.length; j++) addPair(exact[i], exact[j]);
+      for (const other of derived) addPair(exact[i], other);
+    }
+  }
+
+  return pairs;
+}
+
+/**
+ * Cluster distinct slugs whose edit similarity or token similarity reaches the threshold (0-1).
+ * Every member is similar to the cluster's center, the slug with the most similar slugs, so
+ * unrelated slugs are not chained together through intermediate ones ("products" →
+ * "products-shoes" → "shoes").
+ */
+export function findSimilarSlugClusters(
+  slugs: string[],
+  threshold: number,
+  namespace?: string,
+): SimilarSlugCluster[] {
+  const uniqueSlugs = [...new Set(slugs)];
+  const neighbors = uniqueSlugs.map(() => new Map<number, SimilarSlugPair>());
+
+  for (const [i, j] of collectCandidatePairs(uniqueSlugs, threshold)) {
+    const pair = compareSlugs(uniqueSlugs[i], uniqueSlugs[j], threshold);
+    if (!pair) continue;
+
+    neighbors[i].set(j, pair);
+    neighbors[j].set(i, pair);
+  }
+
+  // Centers are picked by the number of similar slugs, ties in slug order
+  const order = uniqueSlugs
+    .map((_, index) => index)
+    .filter((index) => neighbors[index].size > 0)
+    .sort(
+      (a, b) =>
+        neighbors[b].size - neighbors[a].size || uniqueSlugs[a].localeCompare(uniqueSlugs[b]),
+    );
+
+  const assigned = new Set<number>();
+  const clusters: SimilarSlugCluster[] = [];
+  for (const center of order) {
+    if (assigned.has(center)) continue;
+
+    const members = [
+      center,
+      ...Array.from(neighbors[center].entries())
+        .filter(([index]) => !assigned.has(index))
+        .sort(([, a], [, b]) => b.score - a.score)
+        .slice(0, MAX_CLUSTER_SIZE - 1)
+        .map(([index]) => index),
+    ];
+    if (members.length < 2) continue;
+
+    for (const member of members) assigned.add(member);
+    const memberSet = new Set(members);
+    const pairs = members.flatMap((member) =>
+      Array.from(neighbors[member].entries())
+        .filter(([other]) => memberSet.has(other) && member < other)
+        .map(([, pair]) => pair),
+    );
+    clusters.push({
+      namespace,
+      slugs: members.map((member) => uniqueSlugs[member]).sort((a, b) => a.localeCompare(b)),
+      pairs,
+    });
+  }
+
+  return clusters.sort((a, b) => b.slugs.length - a.slugs.length);
+}
+
+/**
+ * Find the slugs most similar to a target slug, best matches first
+ */
+export function findSlugsSimilarTo(
+  target: string,
+  slugs: string[],
+  threshold: number,
+): SimilarSlugPair[] {
+  return [...new Set(slugs)]
+    .filter((slug) => slug !== target)
+    .map((slug) => compareSlugs(target, slug, threshold))
+    .filter((pair): pair is SimilarSlugPair => pair !== undefined)
+    .sort((a, b) => b.score - a.score);
+}
@@ -0,0 +1,234 @@
+/**
+ * URL reconciliation: live URLs from a sitemap, URL list or CSV file compared with the slugs of
+ * a scan, mapped back through the URL pattern of every language
+ */
+
+import { getNormalizationRules, getUrlPattern } from "../config";
+import type {
+  AppConfig,
+  DuplicateResult,
+  LiveSlug,
+  ReconciledUrl,
+  UrlList,
+  UrlReconciliation,
+  UrlSlugCandidate,
+} from "../types";
+import { parseCsv } from "./export";
+import { normalizeSlug } from "./normalize";
+
+// Nesting of sitemap indexes followed before giving up
+const MAX_SITEMAP_DEPTH = 3;
+
+// Header names of the URL column in CSV files, e.g. crawler exports
+const URL_COLUMNS = ["url", "loc", "address", "page", "path"];
+
+const XML_ENTITIES: Record<string, string> = {
+  "&amp;": "&",
+  "&lt;": "<",
+  "&gt;": ">",
+  "&quot;": '"',
+  "&apos;": "'",
+};
+
+/**
+ * Read the URLs of a sitemap, URL list or CSV file; the sitemaps listed by a sitemap index are
+ * returned separately, to be loaded in turn
+ */
+export function parseUrlList(text: string): { urls: string[]; sitemaps: string[] } {
+  const trimmed = text.trim();
+
+  if (trimmed.startsWith("<")) {
+    const locations = Array.from(trimmed.matchAll(/<loc>\s*([\s\S]*?)\s*<\/loc>/g), ([, loc]) =>
+      loc
+        .replace(/^<!\[CDATA\[([\s\S]*)\]\]>$/, "$1")
+        .replace(/&(amp|lt|gt|quot|apos);/g, (entity) => XML_ENTITIES[entity]),
+    );
+    return /<sitemapindex[\s>]/.test(trimmed)
+      ? { urls: [], sitemaps: locations }
+      : { urls: locations, sitemaps: [] };
+  }
+
+  const rows = parseCsv(trimmed);
+  const header = (rows[0] || []).map((column) => column.trim().toLowerCase());
+  const column = Math.max(
+    header.findIndex((name) => URL_COLUMNS.includes(name)),
+    0,
+  );
+
+  // Header rows and other values that are no URL are skipped
+  const urls = rows
+    .map((row) => row[column]?.trim() || "")
+    .filter((value) => value.startsWith("/") || /^https?:\/\//i.test(value));
+  return { urls, sitemaps: [] };
+}
+
+/**
+ * Fetch a sitemap or URL list
+ */
+export async function fetchText(url: string): Promise<string> {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status} ${response.statusText}`);
+  }
+  return response.text();
+}
+
+/**
+ * Load the URLs of a sitemap, URL list or CSV file, following sitemap indexes. Sitemaps that
+ * cannot be loaded are reported as warnings, so the other URLs are still reconciled.
+ */
+export async function loadUrlList(
+  text: string,
+  load: (url: string) => Promise<string> = fetchText,
+): Promise<UrlList> {
+  const urls = new Set<string>();
+  const warnings: string[] = [];
+  const visited = new Set<string>();
+
+  const collect = async (content: string, depth: number): Promise<void> => {
+    const list = parseUrlList(content);
+    for (const url of list.urls) {
+      urls.add(url);
+    }
+
+    for (const sitemap of list.sitemaps) {
+      if (visited.has(sitemap)) continue;
+      visited.add(sitemap);
+      if (depth >= MAX_SITEMAP_DEPTH) {
+        warnings.push(
+          `Skipped ${sitemap}: sitemap indexes nested deeper than ${MAX_SITEMAP_DEPTH}`,
+        );
+        continue;
+      }
+
+      try {
+        console.log(`🗺️ Loading sitemap ${sitemap}`);
+        await collect(await load(sitemap), depth + 1);
+      } catch (error) {
+        warnings.push(
+          `Cannot load sitemap ${sitemap}: ${error instanceof Error ? error.message : String(error)}`,
+        );
+      }
+    }
+  };
+
+  await collect(text, 0);
+  console.log(`🗺️ ${urls.size} URL(s) loaded, ${warnings.length} warning(s)`);
+  return { urls: [...urls], warnings };
+}
+
+/**
+ * Path of a URL without host, query and trailing slash, with percent-encoding decoded
+ */
+function urlPath(url: string): string {
+  let path: string;
+  try {
+    path = new URL(url, "http://localhost").pathname;
+  } catch {
+    path = url.split(/[?#]/)[0];
+  }
+
+  try {
+    path = decodeURI(path);
+  } catch {
+    // Malformed escapes are compared as they are
+  }
+  return path.length > 1 ? path.replace(/\/+$/, "") : path;
+}
+
+/**
+ * Map a URL path back to the slug it holds in a language, undefined when the language's URL
+ * pattern does not match
+ */
+export function matchUrlPattern(
+  path: string,
+  language: string,
+  config: AppConfig,
+): string | undefined {
+  const [prefix, suffix = ""] = getUrlPattern(language, config)
+    .replace("{language}", language)
+    .split("{slug}");
+  const end = suffix.replace(/\/+$/, "");
+
+  if (!path.startsWith(prefix) || !path.endsWith(end)) return undefined;
+  const slug = path.slice(prefix.length, path.length - end.length);
+  return slug || undefined;
+}
+
+/**
+ * Map a URL back to the languages and slugs it may stand for
+ */
+export function parseSlugUrl(
+  url: string,
+  languages: string[],
+  config: AppConfig,
+): UrlSlugCandidate[] {
+  const path = urlPath(url);
+  return languages.flatMap((language) => {
+    const slug = matchUrlPattern(path, language, config);
+    return slug === undefined ? [] : [{ language, slug }];
+  });
+}
+
+/**
+ * Compare live URLs with the slugs of a scan: URLs without a content item, content items without
+ * a URL and URLs resolving to more than one content item. Items are matched on their routed path,
+ * so route prefixes and parent paths are part of the URL.
+ */
+export function reconcileUrls(
+  list: UrlList,
+  result: DuplicateResult,
+  config: AppConfig,
+): UrlReconciliation {
+  const normalization = getNormalizationRules(config);
+  const liveSlugs = result.liveSlugs || [];
+  const languages = result.languages || [...new Set(liveSlugs.map((live) => live.language))];
+  // Routed paths start with a slash, URL patterns hold the slashes around the slug
+  const keyOf = (language: string, slug: string) =>
+    `${language}|${normalizeSlug(slug.replace(/^\/+|\/+$/g, ""), normalization)}`;
+
+  const slugsByKey = new Map<string, LiveSlug[]>();
+  for (const live of liveSlugs) {
+    const key = keyOf(live.language, live.path);
+    slugsByKey.set(key, [...(slugsByKey.get(key) || []), live]);
+  }
+
+  const matchedKeys = new Set<string>();
+  const orphanUrls: ReconciledUrl[] = [];
+  const ambiguousUrls: ReconciledUrl[] = [];
+  for (const url of list.urls) {
+    const candidates = parseSlugUrl(url, languages, config);
+    const items = candidates.flatMap((candidate) => {
+      const key = keyOf(candidate.language, candidate.slug);
+      const matches = slugsByKey.get(key);
+      if (matches) matchedKeys.add(key);
+      return matches || [];
+    });
+
+    const codenames = new Set(items.map((item) => item.codename));
+    if (codenames.size === 0) {
+      orphanUrls.push({ url, candidates, items });
+    } else if (codenames.size > 1) {
+      ambiguousUrls.push({ url, candidates, items });
+    }
+  }
+
+  const orphanItems = Array.from(slugsByKey.entries())
+    .filter(([key]) => !matchedKeys.has(key))
+    .flatMap(([, items]) => items);
+
+  console.log(
+    `🗺️ Reconciled ${list.urls.length} URL(s) with ${liveSlugs.length} slug(s): ${orphanUrls.length} URL(s) without item, ${orphanItems.length} item(s) without URL, ${ambiguousUrls.length} ambiguous URL(s)`,
+  );
+  return {
+    checkedUrls: list.urls.length,
+    checkedSlugs: liveSlugs.length,
+    matchedUrls: list.urls.length - orphanUrls.length - ambiguousUrls.length,
+    orphanUrls,
+    orphanItems,
+    ambiguousUrls,
+    languages,
+    warnings: list.warnings,
+    incomplete: result.incomplete,
+  };
+}
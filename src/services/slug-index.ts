@@ -0,0 +1,264 @@
+/**
+ * Local index of published slugs: seeded by one full scan, then kept up to date with the
+ * changed and deleted items reported by the Sync API
+ */
+
+import { getConfiguredContentTypes, getScannedElements, getSlugElementMapping } from "../config";
+import type {
+  ContentItem,
+  ScanContext,
+  SlugIndex,
+  SlugIndexStatus,
+  SlugIndexStore,
+} from "../types";
+import { fetchSyncChanges, initializeSync } from "./sync";
+
+const DATABASE_NAME = "kontent-duplicate-slugs";
+const OBJECT_STORE_NAME = "slug-indexes";
+
+// Changed items are re-fetched in batches to keep the filter within URL length limits
+const REFETCH_BATCH_SIZE = 50;
+
+// Raised when indexed items gain fields (version 2 added the collection, version 3 the items
+// served through language fallbacks), forcing a rebuild
+const INDEX_FORMAT_VERSION = 3;
+
+/**
+ * Fetch published items with slugs in the indexed languages, optionally only the given item IDs
+ */
+export type IndexedItemFetcher = (itemIds?: string[]) => Promise<ContentItem[]>;
+
+export interface IndexedItems {
+  items: ContentItem[];
+  status: SlugIndexStatus;
+}
+
+/**
+ * Describe what the index covers, so an index built for other settings is not reused
+ */
+function createSignature(context: ScanContext, languages: string[]): string {
+  return JSON.stringify({
+    version: INDEX_FORMAT_VERSION,
+    languages: [...languages].sort(),
+    slugElements: getSlugElementMapping(context.config),
+    elements: getScannedElements(context.config),
+  });
+}
+
+/**
+ * Key of a language variant in the index
+ */
+function variantKey(id: string | undefined, language: string): string {
+  return `${id}|${language}`;
+}
+
+/**
+ * Build the index from a full scan. Sync is initialized first, so changes made during the
+ * scan are picked up by the next update; without it no index can be kept (null).
+ */
+async function buildIndex(
+  context: ScanContext,
+  signature: string,
+  fetchItems: IndexedItemFetcher,
+): Promise<SlugIndex | null> {
+  console.log("🗂️ Building slug index from a full scan...");
+  let continuationToken: string;
+  try {
+    continuationToken = await initializeSync(context.config, context.signal);
+  } catch (error) {
+    if (context.signal?.aborted) throw error;
+    console.warn("⚠️ Could not initialize the Sync API, scanning without the slug index:", error);
+    return null;
+  }
+  const items = await fetchItems();
+  const now = new Date().toISOString();
+
+  return {
+    environmentId: context.config.environmentId,
+    signature,
+    builtAt: now,
+    updatedAt: now,
+    continuationToken,
+    items,
+  };
+}
+
+/**
+ * Apply the changes since the last sync to the index; returns the number of changed items
+ */
+async function updateIndex(
+  context: ScanContext,
+  index: SlugIndex,
+  languages: string[],
+  fetchItems: IndexedItemFetcher,
+): Promise<number> {
+  const { items: changes, continuationToken } = await fetchSyncChanges(
+    context.config,
+    index.continuationToken,
+    context.signal,
+  );
+  const types = new Set(getConfiguredContentTypes(context.config));
+  // Fallback entries are served from a variant in their source language, which may not be scanned
+  const sourceLanguages = new Set(
+    index.items.flatMap((item) => (item.fallbackFrom ? [item.fallbackFrom] : [])),
+  );
+  const relevant = changes.filter(
+    (change) =>
+      types.has(change.data.system.type) &&
+      (languages.includes(change.data.system.language) ||
+        sourceLanguages.has(change.data.system.language)),
+  );
+
+  // Changed items are re-fetched in all languages, deleted variants are dropped; an item whose
+  // fallback source changed or was deleted is re-fetched, as it may be served from another one
+  const changedIds = new Set(
+    relevant
+      .filter(
+        (change) =>
+          change.change_type === "changed" || sourceLanguages.has(change.data.system.language),
+      )
+      .map((change) => change.data.system.id),
+  );
+  const deletedVariants = new Set(
+    relevant
+      .filter(
+        (change) =>
+          change.change_type === "deleted" && languages.includes(change.data.system.language),
+      )
+      .map((change) => variantKey(change.data.system.id, change.data.system.language)),
+  );
+
+  // Batches are fetched side by side; the request pool of the scan bounds the concurrency
+  const ids = [...changedIds];
+  const batches: string[][] = [];
+  for (let i = 0; i < ids.length; i += REFETCH_BATCH_SIZE) {
+    batches.push(ids.slice(i, i + REFETCH_BATCH_SIZE));
+  }
+  const refetched = (await Promise.all(batches.map((batch) => fetchItems(batch)))).flat();
+
+  index.items = [
+    ...index.items.filter(
+      (item) =>
+        !(item.id && changedIds.has(item.id)) &&
+        !deletedVariants.has(variantKey(item.id, item.language)),
+    ),
+    ...refetched,
+  ];
+  index.continuationToken = continuationToken;
+  index.updatedAt = new Date().toISOString();
+
+  console.log(
+    `🔄 Slug index synced: ${changedIds.size} changed, ${deletedVariants.size} deleted variant(s)`,
+  );
+  return changedIds.size + deletedVariants.size;
+}
+
+/**
+ * Get the published items from the local index, building it on the first scan (or when the
+ * settings changed) and syncing it on later scans. Null when the Sync API is unavailable, so
+ * the caller falls back to a plain full scan.
+ */
+export async function loadIndexedItems(
+  context: ScanContext,
+  store: SlugIndexStore,
+  languages: string[],
+  fetchItems: IndexedItemFetcher,
+): Promise<IndexedItems | null> {
+  const signature = createSignature(context, languages);
+  const stored = await store.load(context.config.environmentId);
+
+  if (stored && stored.signature === signature) {
+    try {
+      const changedItems = await updateIndex(context, stored, languages, fetchItems);
+      // A cancelled scan leaves gaps in the items, so the stored index is kept as it was
+      if (!context.signal?.aborted) {
+        await store.save(stored);
+      }
+      return {
+        items: stored.items,
+        status: {
+          builtAt: stored.builtAt,
+          updatedAt: stored.updatedAt,
+          mode: "incremental",
+          changedItems,
+        },
+      };
+    } catch (error) {
+      if (context.signal?.aborted) throw error;
+      // e.g. an expired continuation token; a full scan brings the index back in line
+      console.warn("⚠️ Could not sync the slug index, rebuilding it:", error);
+    }
+  } else if (stored) {
+    console.log("🗂️ Scan settings changed since the slug index was built");
+  }
+
+  const index = await buildIndex(context, signature, fetchItems);
+  if (!index) return null;
+  if (!context.signal?.aborted) {
+    await store.save(index);
+  }
+  return {
+    items: index.items,
+    status: {
+      builtAt: index.builtAt,
+      updatedAt: index.updatedAt,
+      mode: "full",
+      changedItems: 0,
+    },
+  };
+}
+
+/**
+ * Wrap an IndexedDB request in a promise
+ */
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Open the database holding the slug indexes
+ */
+function openDatabase(): Promise<IDBDatabase> {
+  const request = indexedDB.open(DATABASE_NAME, 1);
+  request.onupgradeneeded = () => {
+    request.result.createObjectStore(OBJECT_STORE_NAME, { keyPath: "environmentId" });
+  };
+  return requestToPromise(request);
+}
+
+/**
+ * Run a request against the slug index object store
+ */
+async function withObjectStore<T>(
+  mode: IDBTransactionMode,
+  run: (objectStore: IDBObjectStore) => IDBRequest<T>,
+): Promise<T> {
+  const database = await openDatabase();
+  try {
+    const transaction = database.transaction(OBJECT_STORE_NAME, mode);
+    return await requestToPromise(run(transaction.objectStore(OBJECT_STORE_NAME)));
+  } finally {
+    database.close();
+  }
+}
+
+/**
+ * Create a slug index store backed by IndexedDB in the browser
+ */
+export function createBrowserIndexStore(): SlugIndexStore {
+  return {
+    load: async (environmentId) =>
+      ((await withObjectStore("readonly", (objectStore) => objectStore.get(environmentId))) as
+        | SlugIndex
+        | undefined) || null,
+    save: async (index) => {
+      await withObjectStore("readwrite", (objectStore) => objectStore.put(index));
+    },
+    clear: async (environmentId) => {
+      await withObjectStore("readwrite", (objectStore) => objectStore.delete(environmentId));
+    },
+  };
+}
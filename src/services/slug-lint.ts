@@ -0,0 +1,224 @@
+/**
+ * Slug format linting: rules with severities, per-language overrides and fix proposals
+ */
+
+import type {
+  LintSeverity,
+  SlugHealthReport,
+  SlugLintConfig,
+  SlugLintFinding,
+  SlugLintIssue,
+  SlugLintRuleId,
+} from "../types";
+
+// Longest slug accepted by the "max-length" rule when nothing else is configured
+export const DEFAULT_MAX_SLUG_LENGTH = 80;
+
+export const LINT_SEVERITIES: LintSeverity[] = ["error", "warning", "info", "off"];
+
+interface ResolvedLintSettings {
+  severities: Record<SlugLintRuleId, LintSeverity>;
+  maxLength: number;
+}
+
+interface SlugLintRule {
+  label: string;
+  defaultSeverity: LintSeverity;
+  check: (slug: string, settings: ResolvedLintSettings) => boolean;
+  // Rewrite the slug so the rule passes
+  fix: (slug: string, settings: ResolvedLintSettings) => string;
+}
+
+// Rules in the order their fixes are applied
+export const SLUG_LINT_RULES: Record<SlugLintRuleId, SlugLintRule> = {
+  whitespace: {
+    label: "Contains whitespace",
+    defaultSeverity: "error",
+    check: (slug) => /\s/.test(slug),
+    fix: (slug) => slug.trim().replace(/\s+/g, "-"),
+  },
+  underscore: {
+    label: "Contains underscores",
+    defaultSeverity: "warning",
+    check: (slug) => slug.includes("_"),
+    fix: (slug) => slug.replace(/_+/g, "-"),
+  },
+  uppercase: {
+    label: "Contains uppercase letters",
+    defaultSeverity: "error",
+    check: (slug) => slug !== slug.toLowerCase(),
+    fix: (slug) => slug.toLowerCase(),
+  },
+  "non-ascii": {
+    label: "Contains non-ASCII characters",
+    defaultSeverity: "warning",
+    check: (slug) => /\P{ASCII}/u.test(slug),
+    // Diacritics are folded ("ü" → "u"); other characters are dropped
+    fix: (slug) =>
+      slug
+        .normalize("NFKD")
+        .replace(/\p{M}/gu, "")
+        .replace(/\P{ASCII}/gu, ""),
+  },
+  "double-hyphen": {
+    label: "Contains repeated hyphens",
+    defaultSeverity: "warning",
+    check: (slug) => slug.includes("--"),
+    fix: (slug) => slug.replace(/-{2,}/g, "-"),
+  },
+  "edge-hyphen": {
+    label: "Starts or ends with a hyphen",
+    defaultSeverity: "warning",
+    check: (slug) => /^-|-$/.test(slug),
+    fix: (slug) => slug.replace(/^-+|-+$/g, ""),
+  },
+  "max-length": {
+    label: "Too long",
+    defaultSeverity: "warning",
+    check: (slug, settings) => [...slug].length > settings.maxLength,
+    // Cut at the last hyphen within the limit, so no word is split
+    fix: (slug, settings) => {
+      const cut = [...slug].slice(0, settings.maxLength).join("");
+      const lastHyphen = cut.lastIndexOf("-");
+      return (lastHyphen > 0 ? cut.slice(0, lastHyphen) : cut).replace(/-+$/, "");
+    },
+  },
+};
+
+export const ALL_SLUG_LINT_RULES = Object.keys(SLUG_LINT_RULES) as SlugLintRuleId[];
+
+/**
+ * Check whether a value is a known lint rule
+ */
+export function isSlugLintRule(value: string): value is SlugLintRuleId {
+  return value in SLUG_LINT_RULES;
+}
+
+/**
+ * Check whether a value is a lint severity
+ */
+export function isLintSeverity(value: unknown): value is LintSeverity {
+  return LINT_SEVERITIES.includes(value as LintSeverity);
+}
+
+/**
+ * Resolve the settings of a language: defaults, then the configured settings, then the
+ * language's overrides
+ */
+export function resolveLintSettings(
+  config: SlugLintConfig | undefined,
+  language: string,
+): ResolvedLintSettings {
+  const override = config?.languages?.[language];
+  const severities = Object.fromEntries(
+    ALL_SLUG_LINT_RULES.map((rule) => [
+      rule,
+      override?.severities?.[rule] ??
+        config?.severities?.[rule] ??
+        SLUG_LINT_RULES[rule].defaultSeverity,
+    ]),
+  ) as Record<SlugLintRuleId, LintSeverity>;
+
+  return {
+    severities,
+    maxLength: override?.maxLength ?? config?.maxLength ?? DEFAULT_MAX_SLUG_LENGTH,
+  };
+}
+
+/**
+ * Find the enabled rules a slug breaks
+ */
+export function lintSlug(slug: string, settings: ResolvedLintSettings): SlugLintIssue[] {
+  return ALL_SLUG_LINT_RULES.flatMap((rule) => {
+    const severity = settings.severities[rule];
+    if (severity === "off" || !SLUG_LINT_RULES[rule].check(slug, settings)) return [];
+
+    const message =
+      rule === "max-length"
+        ? `${SLUG_LINT_RULES[rule].label} (${[...slug].length} > ${settings.maxLength} characters)`
+        : SLUG_LINT_RULES[rule].label;
+    return [{ rule, severity, message }];
+  });
+}
+
+/**
+ * Propose a slug that passes all enabled rules, by applying their fixes in order; rules that
+ * are off are left alone (e.g. CJK characters stay where non-ASCII slugs are allowed)
+ */
+export function proposeSlugFix(slug: string, settings: ResolvedLintSettings): string | undefined {
+  const fixed = ALL_SLUG_LINT_RULES.filter((rule) => settings.severities[rule] !== "off").reduce(
+    (value, rule) =>
+      SLUG_LINT_RULES[rule].check(value, settings)
+        ? SLUG_LINT_RULES[rule].fix(value, settings)
+        : value,
+    slug,
+  );
+
+  return fixed && fixed !== slug && lintSlug(fixed, settings).length === 0 ? fixed : undefined;
+}
+
+/**
+ * A language variant whose slug is linted
+ */
+export interface LintTarget {
+  id?: string;
+  name: string;
+  codename: string;
+  type: string;
+  language: string;
+  slug: string;
+  slugField: string;
+  collection?: string;
+}
+
+/**
+ * Lint the slugs of all variants. A fix is only proposed when no other content item uses it
+ * in the variant's URL space.
+ */
+export function buildSlugHealthReport<T extends LintTarget>(
+  targets: T[],
+  config: SlugLintConfig | undefined,
+  isTaken: (target: T, slug: string) => boolean = () => false,
+): SlugHealthReport {
+  const findings: SlugLintFinding[] = [];
+  const counts = { error: 0, warning: 0, info: 0 };
+
+  for (const target of targets) {
+    const settings = resolveLintSettings(config, target.language);
+    const issues = lintSlug(target.slug, settings);
+    if (issues.length === 0) continue;
+
+    for (const issue of issues) {
+      counts[issue.severity]++;
+    }
+    const fixedSlug = proposeSlugFix(target.slug, settings);
+    findings.push({
+      id: target.id,
+      name: target.name,
+      codename: target.codename,
+      type: target.type,
+      language: target.language,
+      slug: target.slug,
+      slugField: target.slugField,
+      collection: target.collection,
+      issues,
+      fixedSlug: fixedSlug && !isTaken(target, fixedSlug) ? fixedSlug : undefined,
+    });
+  }
+
+  console.log(
+    `🩺 Slug health: ${findings.length} of ${targets.length} slugs with issues (${counts.error} errors, ${counts.warning} warnings, ${counts.info} info)`,
+  );
+  return { checkedSlugs: targets.length, findings, counts };
+}
+
+/**
+ * The most severe issue of a finding
+ */
+export function highestSeverity(issues: SlugLintIssue[]): SlugLintIssue["severity"] {
+  return issues.some((issue) => issue.severity === "error")
+    ? "error"
+    : issues.some((issue) => issue.severity === "warning")
+      ? "warning"
+      : "info";
+}
@@ -0,0 +1,159 @@
+/**
+ * Replacement slug suggestions for duplicate groups
+ */
+
+import type { PublishState, SlugKeeper, SlugSuggestion, SuggestionStrategy } from "../types";
+
+// Highest counter tried before giving up on a variant
+const MAX_COUNTER = 99;
+
+export interface SuggestionEntry {
+  name: string;
+  codename: string;
+  type: string;
+  language: string;
+  slug: string;
+  slugField: string;
+  publishState?: PublishState;
+  // Language whose variant is served through a fallback
+  fallbackFrom?: string;
+}
+
+/**
+ * Tracks which content items hold each URL key, so a suggestion never lands on a key that is
+ * used by another item (its own language variants may share it)
+ */
+export interface SlugRegistry {
+  isTaken(key: string, codename: string): boolean;
+  reserve(key: string, codename: string): void;
+}
+
+/**
+ * Create a registry from the existing URL keys and the codenames holding them
+ */
+export function createSlugRegistry(holders: Map<string, Set<string>>): SlugRegistry {
+  return {
+    isTaken: (key, codename) => [...(holders.get(key) || [])].some((holder) => holder !== codename),
+    reserve: (key, codename) => {
+      if (!holders.has(key)) {
+        holders.set(key, new Set());
+      }
+      holders.get(key)?.add(codename);
+    },
+  };
+}
+
+/**
+ * Turn free text such as an item name into a slug ("Über uns!" → "uber-uns")
+ */
+export function slugify(text: string): string {
+  return text
+    .normalize("NFD")
+    .replace(/\p{M}/gu, "")
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, "-")
+    .replace(/^-+|-+$/g, "");
+}
+
+/**
+ * Pick the item that keeps the slug: the first item published under it in a variant of its own,
+ * otherwise the first item
+ */
+export function chooseKeeper(entries: SuggestionEntry[]): SlugKeeper {
+  const published =
+    entries.find((entry) => entry.publishState === "published" && !entry.fallbackFrom) ||
+    entries.find((entry) => entry.publishState === "published");
+  const keeper = published || entries[0];
+
+  return {
+    codename: keeper.codename,
+    name: keeper.name,
+    reason: published
+      ? `"${keeper.name}" is published under this slug, so changing it would break a live URL`
+      : `No item is published under this slug; "${keeper.name}" was found first`,
+  };
+}
+
+/**
+ * Candidate slugs for a variant, from the most to the least descriptive
+ */
+function* candidateSlugs(
+  entry: SuggestionEntry,
+  crossType: boolean,
+): Generator<{ slug: string; strategy: SuggestionStrategy; reason: string }> {
+  const base = entry.slug.trim().replace(/^\/+|\/+$/g, "");
+
+  const fromName = slugify(entry.name);
+  if (fromName && fromName !== base.toLowerCase()) {
+    yield {
+      slug: fromName,
+      strategy: "name",
+      reason: `Derived from the item name "${entry.name}"`,
+    };
+  }
+
+  if (crossType) {
+    yield {
+      slug: `${base}-${slugify(entry.type)}`,
+      strategy: "content-type",
+      reason: `Adds the content type "${entry.type}" to tell the colliding types apart`,
+    };
+  }
+
+  yield {
+    slug: `${base}-${slugify(entry.language)}`,
+    strategy: "language",
+    reason: `Adds the language "${entry.language}" of this variant`,
+  };
+
+  for (let counter = 2; counter <= MAX_COUNTER; counter++) {
+    yield {
+      slug: `${base}-${counter}`,
+      strategy: "counter",
+      reason: "Adds a counter because no more descriptive slug was free",
+    };
+  }
+}
+
+/**
+ * Propose a unique replacement slug for every variant except those of the keeper. Accepted
+ * suggestions are reserved in the registry, so suggestions never collide with each other.
+ */
+export function suggestSlugFixes<T extends SuggestionEntry>(
+  entries: T[],
+  keeper: SlugKeeper,
+  crossType: boolean,
+  keyFor: (entry: T, slug: string) => string,
+  registry: SlugRegistry,
+): SlugSuggestion[] {
+  const suggestions: SlugSuggestion[] = [];
+
+  for (const entry of entries) {
+    if (entry.codename === keeper.codename) continue;
+
+    for (const candidate of candidateSlugs(entry, crossType)) {
+      const key = keyFor(entry, candidate.slug);
+      if (registry.isTaken(key, entry.codename)) continue;
+
+      registry.reserve(key, entry.codename);
+      suggestions.push({
+        codename: entry.codename,
+        name: entry.name,
+        type: entry.type,
+        language: entry.language,
+        currentSlug: entry.slug,
+        suggestedSlug: candidate.slug,
+        strategy: candidate.strategy,
+        // The slug of a fallback can only change in a variant of its own
+        reason: entry.fallbackFrom
+          ? `${candidate.reason}; served via fallback from ${entry.fallbackFrom}, so translate the item into ${entry.language} first`
+          : candidate.reason,
+        slugField: entry.slugField,
+        publishState: entry.publishState,
+      });
+      break;
+    }
+  }
+
+  return suggestions;
+}
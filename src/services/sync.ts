@@ -0,0 +1,114 @@
+/**
+ * Delivery Sync API (v2) client for tracking changed and deleted content items
+ */
+
+import type { AppConfig } from "../types";
+import { fetchWithRetry } from "./request-pool";
+
+const SYNC_API_BASE_URL = "https://deliver.kontent.ai/v2";
+const CONTINUATION_HEADER = "X-Continuation";
+
+// Raw Sync API shapes (partial)
+export interface SyncItemDelta {
+  change_type: "changed" | "deleted";
+  timestamp: string;
+  data: {
+    system: {
+      id: string;
+      codename: string;
+      language: string;
+      type: string;
+      last_modified: string;
+    };
+  };
+}
+
+interface SyncResponse {
+  items?: SyncItemDelta[];
+  types?: unknown[];
+  languages?: unknown[];
+  taxonomies?: unknown[];
+}
+
+export interface SyncChanges {
+  items: SyncItemDelta[];
+  // Token to pass to the next sync, so only later changes are returned
+  continuationToken: string;
+}
+
+/**
+ * Perform a request against the Sync API and return the body with the next continuation token
+ */
+async function syncRequest(
+  config: AppConfig,
+  method: "GET" | "POST",
+  path: string,
+  continuationToken?: string,
+  signal?: AbortSignal,
+): Promise<{ body: SyncResponse; continuationToken: string }> {
+  const headers: Record<string, string> = { Accept: "application/json" };
+  if (config.deliveryApiKey) {
+    headers.Authorization = `Bearer ${config.deliveryApiKey}`;
+  }
+  if (continuationToken) {
+    headers[CONTINUATION_HEADER] = continuationToken;
+  }
+
+  const response = await fetchWithRetry(`${SYNC_API_BASE_URL}/${config.environmentId}/${path}`, {
+    method,
+    headers,
+    signal,
+  });
+
+  if (!response.ok) {
+    const body = await response.text();
+    throw new Error(`Sync API request to "${path}" failed (${response.status}): ${body}`);
+  }
+
+  const nextToken = response.headers.get(CONTINUATION_HEADER);
+  if (!nextToken) {
+    throw new Error(`Sync API response to "${path}" has no continuation token`);
+  }
+
+  return { body: (await response.json()) as SyncResponse, continuationToken: nextToken };
+}
+
+/**
+ * Start tracking changes; changes made after this call are returned by fetchSyncChanges
+ */
+export async function initializeSync(config: AppConfig, signal?: AbortSignal): Promise<string> {
+  const { continuationToken } = await syncRequest(config, "POST", "sync/init", undefined, signal);
+  return continuationToken;
+}
+
+/**
+ * Fetch all content item changes since the continuation token was issued
+ */
+export async function fetchSyncChanges(
+  config: AppConfig,
+  continuationToken: string,
+  signal?: AbortSignal,
+): Promise<SyncChanges> {
+  const items: SyncItemDelta[] = [];
+  let token = continuationToken;
+
+  // Changes come in pages; an empty page means the token is up to date
+  while (true) {
+    const { body, continuationToken: nextToken } = await syncRequest(
+      config,
+      "GET",
+      "sync",
+      token,
+      signal,
+    );
+    token = nextToken;
+    items.push(...(body.items || []));
+
+    const hasChanges = [body.items, body.types, body.languages, body.taxonomies].some(
+      (changes) => changes && changes.length > 0,
+    );
+    if (!hasChanges) break;
+  }
+
+  return { items, continuationToken: token };
+}
@@ -2,21 +2,290 @@
  * Type definitions for the Kontent.ai Duplicate Slugs Finder application
  */
 
+import type { IDeliveryClient } from "@kontent-ai/delivery-sdk";
+
+/**
+ * Content type codename mapped to its slug element codenames, in priority order
+ */
+export type SlugElementMapping = Record<string, string[]>;
+
+/**
+ * How slugs of different content types share URL space:
+ * - "per-type": each content type is its own namespace
+ * - "cross-type": all configured types are routed under one root (with optional route prefixes)
+ * - "hierarchical": full paths are composed from the slugs of a page's ancestors
+ */
+export type ScanMode = "per-type" | "cross-type" | "hierarchical";
+
+/**
+ * Which content the Delivery API returns:
+ * - "published": the published versions
+ * - "preview": the latest versions, including unpublished changes (requires a Preview API key)
+ */
+export type ContentMode = "published" | "preview";
+
+/**
+ * How collections share URL space:
+ * - "per-collection": each collection (e.g. one brand) has its own URL space
+ * - "cross-collection": slugs collide across collections as well
+ */
+export type CollectionScope = "per-collection" | "cross-collection";
+
+/**
+ * Which languages share URL space:
+ * - "global": all languages share one (routes without locale prefixes)
+ * - "per-language": each language has its own (e.g. "/en/...", "/de/...")
+ * - "language-groups": the languages of a group share one, e.g. "en" and "en-gb" served
+ *   under the same prefix; languages outside the groups have their own
+ */
+export type UniquenessScope = "global" | "per-language" | "language-groups";
+
+/**
+ * Items with the given taxonomy element tagged with any of the terms
+ */
+export interface TaxonomyFilter {
+  element: string;
+  terms: string[];
+}
+
+/**
+ * Narrow a scan to part of the content; empty filters match everything
+ */
+export interface ScanFilters {
+  collections?: string[];
+  // Workflow step codenames; published content has no other step than "published"
+  workflowSteps?: string[];
+  taxonomy?: TaxonomyFilter;
+  // Last modified on or after / before the given dates (ISO 8601)
+  modifiedAfter?: string;
+  modifiedBefore?: string;
+}
+
+/**
+ * A slug editors must not use: an exact slug, any slug starting with a prefix, or any slug a
+ * regular expression matches
+ */
+export interface SlugPatternRule {
+  match: "exact" | "prefix" | "regex";
+  pattern: string;
+}
+
+/**
+ * Format checks run over every slug
+ */
+export type SlugLintRuleId =
+  | "uppercase"
+  | "whitespace"
+  | "double-hyphen"
+  | "edge-hyphen"
+  | "underscore"
+  | "non-ascii"
+  | "max-length";
+
+export type LintSeverity = "error" | "warning" | "info" | "off";
+
+/**
+ * Severity of each lint rule (defaults apply to the rules not listed) and the longest allowed slug
+ */
+export interface SlugLintSettings {
+  severities?: Partial<Record<SlugLintRuleId, LintSeverity>>;
+  maxLength?: number;
+}
+
+export interface SlugLintConfig extends SlugLintSettings {
+  // Per-language changes, e.g. { zh: { severities: { "non-ascii": "off" } } } to allow CJK slugs
+  languages?: Record<string, SlugLintSettings>;
+}
+
+/**
+ * Version of a language variant a slug was read from
+ */
+export type SlugVersion = "published" | "latest";
+
+/**
+ * How the hierarchy element links pages: to their parent, or to their subpages
+ */
+export type HierarchyRelation = "parent" | "subpages";
+
+/**
+ * Rules applied to slugs before comparing them, e.g. "About-Us/" and "about-us" collide with
+ * "lowercase" and "trim-slashes" enabled
+ */
+export type NormalizationRule =
+  | "trim-whitespace"
+  | "trim-slashes"
+  | "nfc"
+  | "nfkd"
+  | "fold-diacritics"
+  | "lowercase";
+
 export interface AppConfig {
   environmentId: string;
   deliveryApiKey?: string;
   managementApiKey?: string;
+  previewApiKey?: string;
+  contentMode?: ContentMode;
   languages?: string[];
   defaultLanguage?: string;
+  slugElements?: SlugElementMapping;
+  scanMode?: ScanMode;
+  routePrefixes?: Record<string, string>;
+  normalization?: NormalizationRule[];
+  similarityThreshold?: number;
+  hierarchyElement?: string;
+  hierarchyRelation?: HierarchyRelation;
+  // Maximum number of API requests running at the same time
+  concurrency?: number;
+  filters?: ScanFilters;
+  collectionScope?: CollectionScope;
+  uniquenessScope?: UniquenessScope;
+  // Languages sharing a URL space in "language-groups" scope
+  languageGroups?: string[][];
+  // Check items served through language fallbacks with the slug they inherit
+  includeFallbacks?: boolean;
+  // URL pattern per language ("*" for the others), e.g. { de: "/de/{slug}", "*": "/{slug}" }
+  urlPatterns?: Record<string, string>;
+  // Slugs that must never be used, e.g. "api", "admin" or locale codes
+  reservedSlugs?: string[];
+  forbiddenSlugPatterns?: SlugPatternRule[];
+  slugLint?: SlugLintConfig;
+}
+
+/**
+ * Explicit configuration and clients a scan runs with, instead of the global appConfig
+ */
+export interface ScanContext {
+  config: AppConfig;
+  deliveryClient: IDeliveryClient;
+  // Local index of published slugs kept up to date through the Sync API; scans fetch everything without it
+  slugIndex?: SlugIndexStore;
+  // Per-scan options, see ScanOptions
+  onProgress?: (progress: ScanProgress) => void;
+  signal?: AbortSignal;
+  filters?: ScanFilters;
+  // Pool the requests of one scan or search run through
+  requestPool?: RequestPool;
+}
+
+/**
+ * Timing of a request run through a request pool
+ */
+export interface RequestTiming {
+  label: string;
+  startedAt: number;
+  durationMs: number;
+  ok: boolean;
+}
+
+/**
+ * Runs requests with bounded concurrency and records their timing
+ */
+export interface RequestPool {
+  run<T>(label: string, task: () => Promise<T>): Promise<T>;
+  readonly timings: RequestTiming[];
+}
+
+export type ScanPhase = "index" | "delivery" | "management" | "analysis";
+
+/**
+ * Progress of a running scan
+ */
+export interface ScanProgress {
+  phase: ScanPhase;
+  language?: string;
+  // Pages of results fetched so far in the current language
+  page?: number;
+  // Items fetched so far in the whole scan
+  itemsSoFar: number;
+  // Estimated share of the scan that is done (0-1)
+  fraction: number;
+  message: string;
+}
+
+export interface ScanOptions {
+  onProgress?: (progress: ScanProgress) => void;
+  // Aborting stops all further requests; the scan then returns partial results marked incomplete
+  signal?: AbortSignal;
+  // Filters of this scan, instead of the configured ones
+  filters?: ScanFilters;
+}
+
+/**
+ * Published slugs of an environment, seeded by a full scan and updated with synced changes
+ */
+export interface SlugIndex {
+  environmentId: string;
+  // Languages, content types and elements the index was built for; a change requires a rebuild
+  signature: string;
+  builtAt: string;
+  updatedAt: string;
+  continuationToken: string;
+  items: ContentItem[];
+}
+
+/**
+ * Persistent storage of slug indexes, one per environment
+ */
+export interface SlugIndexStore {
+  load(environmentId: string): Promise<SlugIndex | null>;
+  save(index: SlugIndex): Promise<void>;
+  clear(environmentId: string): Promise<void>;
+}
+
+export interface SlugIndexStatus {
+  builtAt: string;
+  updatedAt: string;
+  // "full" when the index was (re)built by this scan, "incremental" when it was synced
+  mode: "full" | "incremental";
+  changedItems: number;
 }
 
+/**
+ * A language of the environment
+ */
+export interface EnvironmentLanguage {
+  id: string;
+  name: string;
+  codename: string;
+  // Codename of the language whose content is shown when a variant is not translated
+  fallbackLanguage?: string;
+  isActive?: boolean;
+  isDefault?: boolean;
+}
+
+export type PublishState = "published" | "draft" | "scheduled" | "archived";
+
 export interface ContentItem {
+  id?: string;
   name: string;
   codename: string;
   type: string;
   language: string;
   slug: string;
-  slugField: "url_slug" | "slug";
+  slugField: string;
+  collection?: string;
+  workflowStep?: string;
+  publishState?: PublishState;
+  slugVersion?: SlugVersion;
+  source?: "delivery" | "management";
+  // Codenames linked through the hierarchy element (parent or subpages)
+  linkedItems?: string[];
+  // Language of the variant served in `language` through a language fallback
+  fallbackFrom?: string;
+}
+
+/**
+ * Items a language serves through fallbacks, as they have no variant of their own in it
+ */
+export interface LanguageFallbacks {
+  language: string;
+  items: ContentItem[];
+}
+
+export interface PathAncestor {
+  name: string;
+  codename: string;
+  slug: string;
 }
 
 export interface ApiResult {
@@ -38,31 +307,299 @@ export interface ApiResult {
   deliveryApi?: ApiResult;
   deliveryApiAllItems?: ApiResult;
   managementApi?: ApiResult | null;
+  timings?: RequestTiming[];
+  slugHealth?: SlugHealthReport;
+  fallbacks?: LanguageFallbacks[];
 }
 
 export interface DuplicateResult {
   duplicates: DuplicateItem[];
+  languages?: string[];
+  scanMode?: ScanMode;
+  contentMode?: ContentMode;
+  collectionScope?: CollectionScope;
+  uniquenessScope?: UniquenessScope;
+  languageGroups?: string[][];
+  fallbacks?: LanguageFallbacks[];
+  // Whether the fallbacks were included in the duplicate check
+  includeFallbacks?: boolean;
+  // Every published slug the scan found, e.g. to check redirect sources against
+  liveSlugs?: LiveSlug[];
+  filters?: ScanFilters;
+  normalization?: NormalizationRule[];
+  similarClusters?: SimilarSlugCluster[];
   totalItems?: number;
   totalRequests?: number;
   uniqueSlugs?: number;
+  index?: SlugIndexStatus;
+  // Items whose slug is reserved or matches a forbidden pattern
+  reservedSlugViolations?: ReservedSlugViolation[];
+  slugHealth?: SlugHealthReport;
+  // The scan was cancelled, so only the items fetched until then were compared
+  incomplete?: boolean;
+  timings?: RequestTiming[];
   error?: string;
 }
 
 export interface DuplicateItem {
   slug: string;
   items: DuplicateItemEntry[];
+  types?: string[];
+  crossType?: boolean;
+  collections?: string[];
+  crossCollection?: boolean;
+  // Languages sharing the URL space of the slug, outside "global" uniqueness scope
+  languageSpace?: string;
+  variants?: string[];
+  collisionRules?: NormalizationRule[];
+  keeper?: SlugKeeper;
+  suggestions?: SlugSuggestion[];
+}
+
+/**
+ * Content items using a reserved or forbidden slug, with the rule it breaks
+ */
+export interface ReservedSlugViolation {
+  slug: string;
+  rule: SlugPatternRule;
+  items: DuplicateItemEntry[];
+}
+
+/**
+ * A lint rule a slug breaks
+ */
+export interface SlugLintIssue {
+  rule: SlugLintRuleId;
+  severity: Exclude<LintSeverity, "off">;
+  message: string;
+}
+
+/**
+ * Lint issues of one language variant's slug, with a fixed slug when one can be proposed
+ */
+export interface SlugLintFinding {
+  id?: string;
+  name: string;
+  codename: string;
+  type: string;
+  language: string;
+  slug: string;
+  slugField: string;
+  collection?: string;
+  issues: SlugLintIssue[];
+  // Slug with the issues fixed; missing when no fix is possible or it is used by another item
+  fixedSlug?: string;
+}
+
+/**
+ * Lint results of all slugs of a scan
+ */
+export interface SlugHealthReport {
+  checkedSlugs: number;
+  findings: SlugLintFinding[];
+  counts: Record<Exclude<LintSeverity, "off">, number>;
+}
+
+/**
+ * The content item proposed to keep the duplicate slug
+ */
+export interface SlugKeeper {
+  codename: string;
+  name: string;
+  reason: string;
+}
+
+export type SuggestionStrategy = "name" | "content-type" | "language" | "counter";
+
+/**
+ * A replacement slug for one language variant, checked against every slug in its URL space
+ */
+export interface SlugSuggestion {
+  codename: string;
+  name: string;
+  type: string;
+  language: string;
+  currentSlug: string;
+  suggestedSlug: string;
+  strategy: SuggestionStrategy;
+  reason: string;
+  slugField: string;
+  publishState?: PublishState;
+}
+
+/**
+ * A slug change planned for one language variant
+ */
+export interface SlugFix {
+  codename: string;
+  name: string;
+  type: string;
+  language: string;
+  slugField: string;
+  currentSlug: string;
+  newSlug: string;
+}
+
+export type SlugFixStatus = "updated" | "failed" | "dry-run";
+
+export interface SlugFixResult {
+  fix: SlugFix;
+  status: SlugFixStatus;
+  // A published variant got a new draft version that holds the new slug until it is published
+  newVersionCreated?: boolean;
+  error?: string;
+}
+
+/**
+ * A written slug change, kept so it can be reverted
+ */
+export interface UndoLogEntry {
+  codename: string;
+  type: string;
+  language: string;
+  slugField: string;
+  previousSlug: string;
+  newSlug: string;
+  appliedAt: string;
 }
 
 export interface DuplicateItemEntry {
+  id?: string;
   name: string;
   codename: string;
+  type: string;
+  slug?: string;
   language: string;
-  slugField: "url_slug" | "slug";
+  languages?: string[];
+  slugField: string;
+  collection?: string;
+  workflowSteps?: string[];
+  publishStates?: PublishState[];
+  slugVersions?: SlugVersion[];
+  ancestors?: PathAncestor[];
+  // Raw slug of each language variant
+  slugs?: Record<string, string>;
+  // Languages served through a fallback, with the language they fall back to
+  fallbacks?: Record<string, string>;
+}
+
+export interface SimilarSlugPair {
+  a: string;
+  b: string;
+  score: number;
+  reason: "edit-distance" | "token-overlap";
+  distance?: number;
+}
+
+export interface SimilarSlugCluster {
+  namespace?: string;
+  slugs: string[];
+  pairs: SimilarSlugPair[];
+  codenames?: Record<string, string[]>;
+}
+
+/**
+ * Report file formats: plain CSV, structured JSON, or CSV with a UTF-8 BOM for Excel
+ */
+export type ExportFormat = "csv" | "json" | "excel";
+
+/**
+ * A published slug of a language variant found by a scan
+ */
+export interface LiveSlug {
+  id?: string;
+  name: string;
+  codename: string;
+  type: string;
+  slug: string;
+  // Route prefix or parent path plus slug; the slug itself in "per-type" mode
+  path: string;
+  language: string;
+}
+
+/**
+ * A slug that was (or will be) replaced, e.g. while resolving a duplicate
+ */
+export interface SlugChange {
+  oldSlug: string;
+  newSlug: string;
+  // Changes without a language use the "*" URL pattern
+  language?: string;
+  codename?: string;
+}
+
+export type RedirectFormat = "netlify" | "nginx" | "apache" | "json";
+
+export interface RedirectRule {
+  from: string;
+  to: string;
+  language?: string;
+  codename?: string;
+}
+
+export interface RedirectIssue {
+  kind: "chain" | "loop" | "conflict" | "live-source";
+  severity: "error" | "warning";
+  from: string;
+  message: string;
+}
+
+export interface RedirectMap {
+  rules: RedirectRule[];
+  issues: RedirectIssue[];
+}
+
+/**
+ * URLs read from a sitemap (with the sitemaps of a sitemap index), URL list or CSV file
+ */
+export interface UrlList {
+  urls: string[];
+  // Sitemaps that could not be loaded
+  warnings: string[];
+}
+
+/**
+ * A language and slug a URL maps back to through the language's URL pattern
+ */
+export interface UrlSlugCandidate {
+  language: string;
+  slug: string;
+}
+
+export interface ReconciledUrl {
+  url: string;
+  candidates: UrlSlugCandidate[];
+  items: LiveSlug[];
+}
+
+/**
+ * Live URLs compared with the slugs of a scan
+ */
+export interface UrlReconciliation {
+  checkedUrls: number;
+  checkedSlugs: number;
+  matchedUrls: number;
+  // URLs without a content item behind them
+  orphanUrls: ReconciledUrl[];
+  // Content items without a URL in the list
+  orphanItems: LiveSlug[];
+  // URLs resolving to more than one content item
+  ambiguousUrls: ReconciledUrl[];
+  languages: string[];
+  warnings: string[];
+  incomplete?: boolean;
+}
+
+export interface ExportMetadata {
+  environmentId: string;
+  languages: string[];
+  contentTypes: string[];
+  generatedAt: string;
 }
 
 export interface SearchConfig {
   params: URLSearchParams;
-  field: "slug" | "url_slug";
+  field: string;
 }
 
 export interface PaginationInfo {
@@ -71,3 +608,18 @@ export interface PaginationInfo {
   totalRequests: number;
   more: boolean;
 }
+
+/**
+ * Duplicates in the published content compared with the latest versions from the Preview API
+ */
+export interface PreviewComparison {
+  published: DuplicateResult;
+  preview: DuplicateResult;
+  // Collisions that appear (or gain items) once the pending changes go live
+  upcoming: DuplicateItem[];
+  // Published collisions the pending changes resolve
+  resolved: DuplicateItem[];
+  unchanged: number;
+  incomplete?: boolean;
+  error?: string;
+}
@@ -2,7 +2,17 @@
  * Utility functions for data manipulation and formatting
  */
 
-import type { ContentItem, SearchConfig } from "../types";
+import type {
+  ContentItem,
+  NormalizationRule,
+  PathAncestor,
+  PublishState,
+  SearchConfig,
+  SlugElementMapping,
+  SlugKeeper,
+  SlugSuggestion,
+  SlugVersion,
+} from "../types";
 
 // Raw Kontent Delivery item shape (partial)
 interface RawSystem {
@@ -12,15 +22,7 @@ interface RawSystem {
   language?: string;
 }
 
-interface RawElementsSlugField {
-  value?: string;
-}
-
-interface RawElements {
-  url_slug?: RawElementsSlugField;
-  slug?: RawElementsSlugField;
-  [key: string]: unknown;
-}
+type RawElements = Record<string, unknown>;
 
 export interface RawKontentItem {
   system: RawSystem;
@@ -28,22 +30,78 @@ export interface RawKontentItem {
   [key: string]: unknown;
 }
 
+export interface ResolvedSlug {
+  value: string;
+  field: string;
+}
+
+/**
+ * Resolve the slug of an item from the first non-empty slug element configured for its type
+ */
+export function resolveSlugElement(
+  type: string | undefined,
+  elements: RawElements | undefined,
+  mapping: SlugElementMapping,
+): ResolvedSlug | undefined {
+  for (const field of (type && mapping[type]) || []) {
+    const element = elements?.[field] as { value?: unknown } | undefined;
+    if (typeof element?.value === "string" && element.value.trim().length > 0) {
+      return { value: element.value, field };
+    }
+  }
+
+  return undefined;
+}
+
 /**
  * Format API item to standardized ContentItem interface
  */
-export function formatItem(item: RawKontentItem): ContentItem {
-  const slugValue = item.elements?.url_slug?.value || item.elements?.slug?.value || "No slug";
+export function formatItem(item: RawKontentItem, mapping: SlugElementMapping): ContentItem {
+  const slug = resolveSlugElement(item.system?.type, item.elements, mapping);
 
   return {
     name: item.system?.name || "Unknown",
     codename: item.system?.codename || "Unknown",
     type: item.system?.type || "Unknown",
     language: item.system?.language || "Unknown",
-    slug: slugValue,
-    slugField: item.elements?.url_slug?.value ? "url_slug" : "slug",
+    slug: slug?.value || "No slug",
+    slugField: slug?.field || "none",
   };
 }
 
+/**
+ * Build the routed path of a slug under an optional route prefix (e.g. "/blog/" + "post" → "blog/post")
+ */
+export function buildRoutePath(prefix: string, slug: string): string {
+  return [prefix, slug]
+    .map((part) => part.trim().replace(/^\/+|\/+$/g, ""))
+    .filter((part) => part.length > 0)
+    .join("/");
+}
+
+/**
+ * Build the URL of a language variant in the Kontent.ai item editor
+ */
+export function buildItemEditorUrl(
+  environmentId: string,
+  itemId: string,
+  language: string,
+): string {
+  return `https://app.kontent.ai/goto/edit-item/project/${encodeURIComponent(environmentId)}/variant-codename/${encodeURIComponent(language)}/item/${encodeURIComponent(itemId)}`;
+}
+
+/**
+ * Escape text for HTML, e.g. URLs from a third-party sitemap or an uploaded file
+ */
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
 /**
  * Remove duplicate items based on codename+language combination to preserve multilingual variants
  */
@@ -57,57 +115,46 @@ export function removeDuplicateItems(items: ContentItem[]): ContentItem[] {
 /**
  * Get unique slugs from items array
  */
-export function getUniqueSlugValues(items: RawKontentItem[]): string[] {
+export function getUniqueSlugValues(
+  items: RawKontentItem[],
+  mapping: SlugElementMapping,
+): string[] {
   const values = items
-    .map((item) => item.elements?.url_slug?.value || item.elements?.slug?.value)
+    .map((item) => resolveSlugElement(item.system?.type, item.elements, mapping)?.value)
     .filter((v): v is string => typeof v === "string" && v.length > 0);
   return [...new Set(values)];
 }
 
 /**
- * Create search configurations for different field types
+ * Create search configurations for every configured type and slug element
  */
-export function createSearchConfigs(targetSlug: string): SearchConfig[] {
-  return [
-    // Try 'slug' field with type filter
-    {
-      params: new URLSearchParams({
-        "system.type": "page",
-        "elements.slug": targetSlug,
-        depth: "0",
-        limit: "100",
-      }),
-      field: "slug",
-    },
-    // Try 'url_slug' field with type filter
-    {
-      params: new URLSearchParams({
-        "system.type": "page",
-        "elements.url_slug": targetSlug,
-        depth: "0",
-        limit: "100",
-      }),
-      field: "url_slug",
-    },
-    // Try 'slug' field without type filter
-    {
-      params: new URLSearchParams({
-        "elements.slug": targetSlug,
-        depth: "0",
-        limit: "100",
-      }),
-      field: "slug",
-    },
-    // Try 'url_slug' field without type filter
-    {
+export function createSearchConfigs(
+  targetSlug: string,
+  mapping: SlugElementMapping,
+): SearchConfig[] {
+  const typedConfigs = Object.entries(mapping).flatMap(([type, fields]) =>
+    fields.map((field) => ({
       params: new URLSearchParams({
-        "elements.url_slug": targetSlug,
+        "system.type": type,
+        [`elements.${field}`]: targetSlug,
         depth: "0",
         limit: "100",
       }),
-      field: "url_slug",
-    },
-  ];
+      field,
+    })),
+  );
+
+  // Try each slug element without type filter as well
+  const untypedConfigs = [...new Set(Object.values(mapping).flat())].map((field) => ({
+    params: new URLSearchParams({
+      [`elements.${field}`]: targetSlug,
+      depth: "0",
+      limit: "100",
+    }),
+    field,
+  }));
+
+  return [...typedConfigs, ...untypedConfigs];
 }
 
 /**
@@ -129,25 +176,24 @@ export function createApiHeaders(apiKey?: string): Record<string, string> {
 /**
  * Filter items by matching slug value
  */
-export function filterItemsBySlug(items: RawKontentItem[], targetSlug: string): RawKontentItem[] {
-  return items.filter((item) => {
-    const hasMatchingSlug =
-      item.elements?.slug?.value === targetSlug || item.elements?.url_slug?.value === targetSlug;
-    const isPageType = item.system?.type === "page";
-
-    return hasMatchingSlug && isPageType;
-  });
+export function filterItemsBySlug(
+  items: RawKontentItem[],
+  targetSlug: string,
+  mapping: SlugElementMapping,
+): RawKontentItem[] {
+  return items.filter(
+    (item) => resolveSlugElement(item.system?.type, item.elements, mapping)?.value === targetSlug,
+  );
 }
 
 /**
- * Filter items by page type and presence of slug
+ * Filter items by configured type and presence of slug
  */
-export function filterPageItemsWithSlugs(items: RawKontentItem[]): RawKontentItem[] {
-  return items.filter(
-    (item) =>
-      item.system?.type === "page" &&
-      (item.elements?.url_slug?.value || item.elements?.slug?.value),
-  );
+export function filterPageItemsWithSlugs(
+  items: RawKontentItem[],
+  mapping: SlugElementMapping,
+): RawKontentItem[] {
+  return items.filter((item) => resolveSlugElement(item.system?.type, item.elements, mapping));
 }
 
 /**
@@ -158,16 +204,22 @@ export function findSimilarSlugs(allSlugs: string[], searchTerm: string): string
 }
 
 /**
- * Count items by field type
+ * Count items by slug element codename
  */
-export function countItemsByFieldType(items: RawKontentItem[]): {
-  urlSlugCount: number;
-  slugCount: number;
-} {
-  return {
-    urlSlugCount: items.filter((item) => item.elements?.url_slug?.value).length,
-    slugCount: items.filter((item) => item.elements?.slug?.value).length,
-  };
+export function countItemsByFieldType(
+  items: RawKontentItem[],
+  mapping: SlugElementMapping,
+): Record<string, number> {
+  const counts: Record<string, number> = {};
+
+  for (const item of items) {
+    const field = resolveSlugElement(item.system?.type, item.elements, mapping)?.field;
+    if (field) {
+      counts[field] = (counts[field] || 0) + 1;
+    }
+  }
+
+  return counts;
 }
 
 /**
@@ -177,24 +229,27 @@ type SlimItem = {
   name: string;
   codename: string;
   language: string;
-  slugField: "url_slug" | "slug";
+  slugField: string;
 };
-export function groupItemsBySlug(items: RawKontentItem[]): Map<string, SlimItem[]> {
+export function groupItemsBySlug(
+  items: RawKontentItem[],
+  mapping: SlugElementMapping,
+): Map<string, SlimItem[]> {
   const slugMap = new Map<string, SlimItem[]>();
 
   for (const item of items) {
-    const slug = item.elements?.url_slug?.value || item.elements?.slug?.value;
+    const slug = resolveSlugElement(item.system?.type, item.elements, mapping);
 
     if (slug) {
-      if (!slugMap.has(slug)) {
-        slugMap.set(slug, []);
+      if (!slugMap.has(slug.value)) {
+        slugMap.set(slug.value, []);
       }
 
-      slugMap.get(slug)?.push({
+      slugMap.get(slug.value)?.push({
         name: item.system.name || "Unknown",
         codename: item.system.codename || "unknown_codename",
         language: item.system.language || "unknown_language",
-        slugField: item.elements?.url_slug?.value ? "url_slug" : "slug",
+        slugField: slug.field,
       });
     }
   }
@@ -206,17 +261,35 @@ export function groupItemsBySlug(items: RawKontentItem[]): Map<string, SlimItem[
  * Filter duplicate entries from slug map - only return true duplicates (different codenames with same slug)
  */
 export interface DuplicateSummaryItem {
+  id?: string;
   name: string;
   codename: string;
+  type?: string;
+  slug?: string;
   languages: string[];
   language: string; // backward compatible aggregated language string
-  slugField: "url_slug" | "slug";
+  slugField: string;
   languageCount: number;
+  collection?: string;
+  workflowSteps?: string[];
+  publishStates?: PublishState[];
+  slugVersions?: SlugVersion[];
+  ancestors?: PathAncestor[];
+  fallbacks?: Record<string, string>;
 }
 
 export interface DuplicateGroup {
   slug: string;
   items: DuplicateSummaryItem[];
+  types?: string[];
+  crossType?: boolean;
+  collections?: string[];
+  crossCollection?: boolean;
+  languageSpace?: string;
+  variants?: string[];
+  collisionRules?: NormalizationRule[];
+  keeper?: SlugKeeper;
+  suggestions?: SlugSuggestion[];
 }
 
 export function filterDuplicates(slugMap: Map<string, SlimItem[]>): DuplicateGroup[] {
@@ -266,7 +339,7 @@ export function filterDuplicates(slugMap: Map<string, SlimItem[]>): DuplicateGro
           codename,
           languages: languageItems.map((item) => item.language).sort((a, b) => a.localeCompare(b)),
           language: languageItems.map((item) => item.language).join(", "), // For backward compatibility
-          slugField: languageItems[0].slugField as "url_slug" | "slug",
+          slugField: languageItems[0].slugField,
           languageCount: languageItems.length,
         }),
       );
@@ -278,16 +351,18 @@ export function filterDuplicates(slugMap: Map<string, SlimItem[]>): DuplicateGro
 /**
  * Log item details for debugging
  */
-export function logItemDetails(item: RawKontentItem, targetSlug: string): void {
-  const hasMatchingSlug =
-    item.elements?.slug?.value === targetSlug || item.elements?.url_slug?.value === targetSlug;
-  const isPageType = item.system?.type === "page";
+export function logItemDetails(
+  item: RawKontentItem,
+  targetSlug: string,
+  mapping: SlugElementMapping,
+): void {
+  const slug = resolveSlugElement(item.system?.type, item.elements, mapping);
 
   console.log(`Item ${item.system?.codename}:`, {
     type: item.system?.type,
-    slug: item.elements?.slug?.value,
-    url_slug: item.elements?.url_slug?.value,
-    matchesSlug: hasMatchingSlug,
-    isPage: isPageType,
+    slug: slug?.value,
+    slugField: slug?.field,
+    matchesSlug: slug?.value === targetSlug,
+    isConfiguredType: Boolean(item.system?.type && mapping[item.system.type]),
   });
 }